@@ -33,7 +33,10 @@ import {
   File,
   Video,
   MoreVertical,
-  FolderOpen
+  FolderOpen,
+  Pencil,
+  History,
+  RotateCcw
 } from 'lucide-react';
 
 // --- Types ---
@@ -43,6 +46,8 @@ interface User {
   avatar_url: string;
   selected_repo: string | null;
   selected_branch: string | null;
+  // Whether the server can stage uploads in parts. Without it every upload is sent inline.
+  chunked_uploads: boolean;
 }
 
 interface Repo {
@@ -58,8 +63,50 @@ interface Asset {
   folder: string;
   sha: string;
   size: number;
+  storage?: 'git' | 'lfs';
   download_url: string | null;
   cdn_url: string;
+  pinned_cdn_url?: string;
+  last_modified?: string | null;
+  last_commit?: AssetLastCommit | null;
+  metadata?: AssetMetadata;
+  image?: AssetImageInfo | null;
+  variants?: AssetVariant[];
+}
+
+interface AssetVariant {
+  width: number;
+  name: string;
+  path: string;
+  cdn_url: string;
+  pinned_cdn_url?: string;
+}
+
+interface AssetMetadata {
+  alt: string | null;
+  description: string | null;
+  tags: string[];
+}
+
+interface AssetImageInfo {
+  width: number;
+  height: number;
+  placeholder: string;
+  dominant_color: string;
+}
+
+interface AssetIntegrity {
+  path: string;
+  sha: string;
+  integrity: { sha256: string | null; sha384: string | null };
+  cdn_url: string;
+  pinned_cdn_url: string;
+}
+
+interface AssetLastCommit {
+  sha: string;
+  message: string;
+  committer: { name: string | null; login: string | null; avatar_url: string | null };
 }
 
 interface FolderEntry {
@@ -69,9 +116,133 @@ interface FolderEntry {
 
 interface AssetsResponse {
   current_folder: string;
+  complete?: boolean;
   folders: FolderEntry[];
   files: Asset[];
+  total?: number;
+  next_cursor?: string | null;
   all_folders: string[];
+  all_tags?: TagCount[];
+}
+
+interface UploadedAsset {
+  name: string;
+  path: string;
+  cdn_url: string;
+  duplicate: boolean;
+  unchanged?: boolean;
+  commit_sha?: string | null;
+  bytes_saved?: number;
+  warning?: string | null;
+}
+
+interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+interface DuplicateGroup {
+  sha: string;
+  size: number;
+  wasted_bytes: number;
+  files: { name: string; path: string; folder: string; cdn_url: string }[];
+}
+
+interface DuplicatesReport {
+  groups: DuplicateGroup[];
+  duplicate_files: number;
+  wasted_bytes: number;
+}
+
+interface AssetVersion {
+  commit_sha: string;
+  message: string;
+  author: { name: string | null; login: string | null; avatar_url: string | null };
+  date: string | null;
+  deleted: boolean;
+  blob_sha: string | null;
+  size: number | null;
+  pinned_cdn_url: string | null;
+}
+
+interface TrashItem {
+  id: string;
+  trash_id: string;
+  path: string;
+  name: string;
+  folder: string;
+  size: number;
+  deleted_at: number;
+  expires_at: number;
+  expired: boolean;
+}
+
+interface ReleaseTag {
+  name: string;
+  commit_sha: string;
+  cdn_base_url: string;
+}
+
+type OverwritePolicy = 'fail' | 'rename' | 'replace';
+
+type AssetSortOption = 'name:asc' | 'name:desc' | 'size:desc' | 'size:asc' | 'modified:desc' | 'modified:asc';
+
+type SriTagKind = 'script' | 'stylesheet' | 'font';
+
+type AssetTypeFilter = '' | 'image' | 'video' | 'audio' | 'document' | 'font' | 'archive' | 'other';
+
+type NamingStrategy = 'original' | 'hash' | 'timestamp';
+
+type CdnProvider = 'jsdelivr' | 'statically' | 'githack' | 'github-pages' | 'custom';
+
+type ImageOutputFormat = 'original' | 'webp' | 'avif';
+
+interface ImageOptimizationSettings {
+  enabled: boolean;
+  quality: number;
+  format: ImageOutputFormat;
+  keep_original: boolean;
+}
+
+interface RepoConfig {
+  cdn: {
+    provider: CdnProvider;
+    template: string | null;
+  };
+  trash: {
+    retention_days: number;
+  };
+  lfs: {
+    enabled: boolean;
+    folders: string[];
+  };
+  naming: {
+    strategy: NamingStrategy;
+  };
+  views: SavedAssetView[];
+  manifest: {
+    enabled: boolean;
+  };
+  optimization: ImageOptimizationSettings & {
+    // Each folder stores only the fields it overrides.
+    folders: Record<string, Partial<ImageOptimizationSettings>>;
+  };
+}
+
+interface SavedAssetView {
+  name: string;
+  folder: string;
+  recursive: boolean;
+  tags: string[];
+  type: Exclude<AssetTypeFilter, ''> | null;
+  q: string | null;
+  sort: 'name' | 'size' | 'modified';
+  order: 'asc' | 'desc';
+}
+
+interface TagCount {
+  tag: string;
+  count: number;
 }
 
 interface ApiAppCredential {
@@ -85,6 +256,9 @@ interface ApiAppCredential {
   base_folder: string;
   allowed_extensions: string[];
   max_bytes: number;
+  overwrite_policy: OverwritePolicy;
+  optimization: ImageOptimizationSettings | null;
+  strip_metadata: boolean;
   issued_at: number;
   expires_at: number;
 }
@@ -97,6 +271,18 @@ const getParentFolderPath = (path: string): string => {
   return path.slice(0, lastSlash);
 };
 
+const formatRelativeTime = (isoDate: string): string => {
+  const seconds = Math.round((Date.now() - new Date(isoDate).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 30) return `${days}d ago`;
+  return new Date(isoDate).toLocaleDateString();
+};
+
 const formatSize = (bytes: number): string => {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -105,6 +291,187 @@ const formatSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
+// Scripts, stylesheets and fonts are the assets browsers check against an integrity attribute.
+const getSriTagKind = (name: string): SriTagKind | null => {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'js' || extension === 'mjs') return 'script';
+  if (extension === 'css') return 'stylesheet';
+  if (extension && ['woff', 'woff2', 'ttf', 'otf'].includes(extension)) return 'font';
+  return null;
+};
+
+const buildSriTag = (kind: SriTagKind, name: string, url: string, integrity: string): string => {
+  switch (kind) {
+    case 'script':
+      return `<script src="${url}" integrity="${integrity}" crossorigin="anonymous"></script>`;
+    case 'stylesheet':
+      return `<link rel="stylesheet" href="${url}" integrity="${integrity}" crossorigin="anonymous">`;
+    case 'font':
+      return `<link rel="preload" href="${url}" as="font" type="font/${name.split('.').pop()?.toLowerCase()}" integrity="${integrity}" crossorigin="anonymous">`;
+  }
+};
+
+const SRI_TAG_LABELS: Record<SriTagKind, string> = {
+  script: '<script> tag',
+  stylesheet: '<link> tag',
+  font: 'Preload tag',
+};
+
+// Variants are listed narrowest first, so the browser can pick by viewport width. The
+// original closes the list when its width is known, so wide screens still get it.
+const buildSrcsetSnippet = (asset: Asset, variants: AssetVariant[]): string => {
+  const image = asset.image;
+  const candidates = variants.map(variant => `${variant.cdn_url} ${variant.width}w`);
+  if (image && variants.every(variant => variant.width < image.width)) {
+    candidates.push(`${asset.cdn_url} ${image.width}w`);
+  }
+  const srcset = candidates.join(', ');
+  const alt = (asset.metadata?.alt || asset.name).replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  const size = image ? ` width="${image.width}" height="${image.height}"` : '';
+  return `<img src="${asset.cdn_url}" srcset="${srcset}" sizes="100vw"${size} alt="${alt}">`;
+};
+
+const CHUNKED_UPLOAD_THRESHOLD_BYTES = 8 * 1024 * 1024;
+const BATCH_UPLOAD_MAX_FILES = 50;
+const BATCH_UPLOAD_MAX_BYTES = 100 * 1024 * 1024;
+// The server's JSON body limit, less room for the file names and other fields.
+const INLINE_UPLOAD_MAX_BYTES = 15 * 1024 * 1024 - 64 * 1024;
+
+// Size of a file sent inline as a base64 data URL.
+const inlineUploadBytes = (file: File) => Math.ceil(file.size / 3) * 4 + 256;
+
+const ASSET_SORT_LABELS: Record<AssetSortOption, string> = {
+  'name:asc': 'Name (A–Z)',
+  'name:desc': 'Name (Z–A)',
+  'size:desc': 'Largest first',
+  'size:asc': 'Smallest first',
+  'modified:desc': 'Newest first',
+  'modified:asc': 'Oldest first',
+};
+
+const ASSET_TYPE_LABELS: Record<AssetTypeFilter, string> = {
+  '': 'All types',
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  font: 'Fonts',
+  archive: 'Archives',
+  other: 'Other',
+};
+
+const IMAGE_OUTPUT_FORMAT_LABELS: Record<ImageOutputFormat, string> = {
+  original: 'Keep format',
+  webp: 'Convert to WebP',
+  avif: 'Convert to AVIF',
+};
+
+const describeOptimization = (settings: ImageOptimizationSettings): string => (
+  settings.enabled
+    ? `${IMAGE_OUTPUT_FORMAT_LABELS[settings.format]}, quality ${settings.quality}${settings.keep_original ? ', original kept' : ''}`
+    : 'Off'
+);
+
+const CDN_PROVIDER_LABELS: Record<CdnProvider, string> = {
+  jsdelivr: 'jsDelivr',
+  statically: 'Statically',
+  githack: 'raw.githack',
+  'github-pages': 'GitHub Pages',
+  custom: 'Custom domain',
+};
+
+const readUploadError = async (res: Response, fallback: string) => {
+  const errorData = await res.json().catch(() => null);
+  return new Error(errorData?.error || fallback);
+};
+
+const discardStagedUpload = (uploadId: string) =>
+  fetch(`/api/uploads/${uploadId}`, { method: 'DELETE' }).then(() => undefined, () => undefined);
+
+// Sends a file's parts to the server without committing it and returns the upload id.
+const stageFileInParts = async (
+  file: File,
+  folder: string,
+  widths: string | undefined,
+  onProgress: (uploadedParts: number, totalParts: number) => void,
+): Promise<string> => {
+  const initRes = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: file.name, folder, size: file.size, mime_type: file.type || undefined, widths }),
+  });
+  if (!initRes.ok) throw await readUploadError(initRes, 'Failed to start upload.');
+
+  const upload = await initRes.json() as { upload_id: string; part_size: number; part_count: number };
+
+  try {
+    for (let partNumber = 1; partNumber <= upload.part_count; partNumber += 1) {
+      const start = (partNumber - 1) * upload.part_size;
+      const chunk = file.slice(start, Math.min(start + upload.part_size, file.size));
+
+      let attempt = 0;
+      while (true) {
+        const partRes = await fetch(`/api/uploads/${upload.upload_id}/parts/${partNumber}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: chunk,
+        }).catch(() => null);
+
+        if (partRes?.ok) break;
+        attempt += 1;
+        if (attempt >= 3) {
+          throw partRes ? await readUploadError(partRes, `Failed to upload part ${partNumber}.`) : new Error(`Failed to upload part ${partNumber}.`);
+        }
+      }
+
+      onProgress(partNumber, upload.part_count);
+    }
+
+    return upload.upload_id;
+  } catch (err) {
+    await discardStagedUpload(upload.upload_id);
+    throw err;
+  }
+};
+
+// Uploads a file through the init/parts/complete protocol and returns the stored (or already existing) asset.
+const uploadFileInParts = async (
+  file: File,
+  folder: string,
+  widths: string | undefined,
+  onProgress: (uploadedParts: number, totalParts: number) => void,
+): Promise<UploadedAsset> => {
+  const uploadId = await stageFileInParts(file, folder, widths, onProgress);
+  try {
+    const completeRes = await fetch(`/api/uploads/${uploadId}/complete`, { method: 'POST' });
+    if (!completeRes.ok) throw await readUploadError(completeRes, 'Failed to complete upload.');
+    return await completeRes.json() as UploadedAsset;
+  } catch (err) {
+    await discardStagedUpload(uploadId);
+    throw err;
+  }
+};
+
+// Splits a multi-file selection into batch uploads the server accepts, one commit each.
+// Inline batches must fit in one JSON body, staged ones only in the batch size limit.
+const groupBatchUploads = (files: File[], inline: boolean): File[][] => {
+  const groups: File[][] = [];
+  const maxBytes = inline ? INLINE_UPLOAD_MAX_BYTES : BATCH_UPLOAD_MAX_BYTES;
+  let groupBytes = 0;
+  for (const file of files) {
+    const group = groups[groups.length - 1];
+    const fileBytes = inline ? inlineUploadBytes(file) : file.size;
+    if (group && group.length < BATCH_UPLOAD_MAX_FILES && groupBytes + fileBytes <= maxBytes) {
+      group.push(file);
+      groupBytes += fileBytes;
+    } else {
+      groups.push([file]);
+      groupBytes = fileBytes;
+    }
+  }
+  return groups;
+};
+
 // --- UI Components ---
 
 const Button = memo<{
@@ -242,14 +609,16 @@ const EmptyState = memo<{
 const Toast = memo<{
   message: string;
   type?: 'success' | 'error';
+  action?: ToastAction;
   onClose?: () => void;
-}>(({ message, type = 'success', onClose }) => {
+}>(({ message, type = 'success', action, onClose }) => {
   useEffect(() => {
     if (onClose) {
-      const timer = setTimeout(onClose, 3000);
+      // Leave time to reach the action button before the toast goes away.
+      const timer = setTimeout(onClose, action ? 6000 : 3000);
       return () => clearTimeout(timer);
     }
-  }, [onClose]);
+  }, [action, onClose]);
 
   const styles = {
     success: 'bg-[#188038]',
@@ -260,6 +629,17 @@ const Toast = memo<{
     <div className={`fixed bottom-4 right-4 px-4 py-3 text-white text-sm rounded-lg shadow-lg z-50 ${styles[type]} animate-slide-up flex items-center gap-2`}>
       {type === 'success' ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
       {message}
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            onClose?.();
+          }}
+          className="ml-2 px-2 py-0.5 rounded font-medium uppercase tracking-wide hover:bg-white/20"
+        >
+          {action.label}
+        </button>
+      )}
     </div>
   );
 });
@@ -330,6 +710,7 @@ const Sidebar = memo<{
   const navItems = [
     { id: 'dashboard', label: 'Assets', icon: Database },
     { id: 'api', label: 'API Access', icon: KeyRound },
+    { id: 'trash', label: 'Trash', icon: Trash2 },
     { id: 'settings', label: 'Settings', icon: Settings },
   ];
 
@@ -696,11 +1077,276 @@ const RepoSelector = memo<{
 
 // --- Dashboard Component ---
 
+const AssetHistoryPanel = memo<{
+  asset: Asset;
+  onRestored: () => void;
+  onToast: (message: string, type?: 'success' | 'error') => void;
+}>(({ asset, onRestored, onToast }) => {
+  const [versions, setVersions] = useState<AssetVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringSha, setRestoringSha] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/assets/history?path=${encodeURIComponent(asset.path)}`);
+        const data = await res.json().catch(() => null);
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data?.error || 'Failed to load history.');
+          return;
+        }
+        setVersions((data as { versions: AssetVersion[] }).versions);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError('Failed to load history.');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [asset.path, asset.sha]);
+
+  const restoreVersion = useCallback(async (version: AssetVersion) => {
+    if (!confirm(`Restore ${asset.name} to the version from ${version.commit_sha.slice(0, 7)}?`)) return;
+
+    setRestoringSha(version.commit_sha);
+    try {
+      const res = await fetch('/api/assets/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: asset.path, commit_sha: version.commit_sha }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        onToast(errorData?.error || 'Restore failed', 'error');
+        return;
+      }
+
+      onToast(`${asset.name} restored`);
+      onRestored();
+    } catch (err) {
+      console.error(err);
+      onToast('Restore failed', 'error');
+    } finally {
+      setRestoringSha(null);
+    }
+  }, [asset.name, asset.path, onRestored, onToast]);
+
+  if (error) {
+    return <p className="text-xs text-[#d93025]">{error}</p>;
+  }
+
+  if (!versions) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-[#5f6368]">
+        <Loader2 className="w-3.5 h-3.5 spinner" />
+        Loading history...
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2 max-h-64 overflow-y-auto">
+      {versions.map((version, index) => (
+        <li key={version.commit_sha} className="flex items-start gap-2 text-xs">
+          {version.author.avatar_url ? (
+            <img src={version.author.avatar_url} alt="" className="w-5 h-5 rounded-full mt-0.5" />
+          ) : (
+            <div className="w-5 h-5 rounded-full bg-[#e8eaed] dark:bg-[#3c4043] mt-0.5" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-[#202124] dark:text-[#e8eaed] truncate" title={version.message}>{version.message.split('\n')[0]}</p>
+            <p className="text-[#9aa0a6]">
+              {version.author.login || version.author.name || 'unknown'}
+              {version.date && ` · ${new Date(version.date).toLocaleString()}`}
+              {version.size != null && ` · ${formatSize(version.size)}`}
+              {version.deleted && ' · deleted'}
+            </p>
+          </div>
+          {index === 0 && !version.deleted ? (
+            <Badge variant="success">Current</Badge>
+          ) : !version.deleted && (
+            <div className="flex items-center gap-1">
+              {version.pinned_cdn_url && (
+                <a href={version.pinned_cdn_url} target="_blank" rel="noreferrer" className="p-1 text-[#5f6368] hover:text-[#1a73e8]" title="Open this version">
+                  <ExternalLink className="w-3.5 h-3.5" />
+                </a>
+              )}
+              <button
+                onClick={() => restoreVersion(version)}
+                disabled={restoringSha != null}
+                className="p-1 text-[#1a73e8] hover:bg-[#e8f0fe] rounded disabled:opacity-50"
+                title="Restore this version"
+              >
+                {restoringSha === version.commit_sha ? <Loader2 className="w-3.5 h-3.5 spinner" /> : <RotateCcw className="w-3.5 h-3.5" />}
+              </button>
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+const AssetMetadataEditor = memo<{
+  asset: Asset;
+  onSaved: (commitSha: string | null) => void;
+  onToast: (message: string, type?: 'success' | 'error') => void;
+}>(({ asset, onSaved, onToast }) => {
+  const [alt, setAlt] = useState(asset.metadata?.alt ?? '');
+  const [description, setDescription] = useState(asset.metadata?.description ?? '');
+  const [tags, setTags] = useState((asset.metadata?.tags ?? []).join(', '));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setAlt(asset.metadata?.alt ?? '');
+    setDescription(asset.metadata?.description ?? '');
+    setTags((asset.metadata?.tags ?? []).join(', '));
+  }, [asset.metadata]);
+
+  const saveMetadata = useCallback(async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/metadata', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: asset.path, alt, description, tags }),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        onToast(data?.error || 'Failed to save details', 'error');
+        return;
+      }
+
+      onSaved((data as { commit_sha: string | null }).commit_sha);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to save details', 'error');
+    } finally {
+      setSaving(false);
+    }
+  }, [asset.path, alt, description, tags, onSaved, onToast]);
+
+  return (
+    <div className="space-y-2">
+      <Input value={alt} onChange={setAlt} placeholder="Alt text" disabled={saving} />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        disabled={saving}
+        rows={3}
+        className="w-full px-4 py-2.5 text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg transition-all duration-150
+          placeholder:text-[#9aa0a6] text-[#202124] dark:text-[#e8eaed]
+          hover:border-[#9aa0a6]
+          focus:outline-none focus:border-[#1a73e8] focus:ring-1 focus:ring-[#1a73e8]
+          disabled:bg-[#f1f3f4] dark:disabled:bg-[#3c4043] disabled:cursor-not-allowed resize-y"
+      />
+      <Input value={tags} onChange={setTags} placeholder="Tags, separated by commas" disabled={saving} />
+      <div className="flex justify-end">
+        <Button size="sm" onClick={saveMetadata} loading={saving}>Save details</Button>
+      </div>
+    </div>
+  );
+});
+
+const TagSidebar = memo<{
+  tags: TagCount[];
+  selectedTags: string[];
+  views: SavedAssetView[];
+  savingView: boolean;
+  onToggleTag: (tag: string) => void;
+  onClearTags: () => void;
+  onApplyView: (view: SavedAssetView) => void;
+  onSaveView: () => void;
+  onDeleteView: (view: SavedAssetView) => void;
+}>(({ tags, selectedTags, views, savingView, onToggleTag, onClearTags, onApplyView, onSaveView, onDeleteView }) => {
+  return (
+    <aside className="lg:w-56 shrink-0 space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-xs font-medium text-[#9aa0a6] uppercase tracking-wider">Saved Views</h3>
+          <button
+            onClick={onSaveView}
+            disabled={savingView}
+            className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1 disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" />
+            Save
+          </button>
+        </div>
+        {views.length === 0 ? (
+          <p className="text-xs text-[#9aa0a6]">Save the current folder and filters to share them with your team.</p>
+        ) : (
+          <ul className="space-y-1">
+            {views.map(view => (
+              <li key={view.name} className="group flex items-center gap-1">
+                <button
+                  onClick={() => onApplyView(view)}
+                  className="flex-1 text-left text-sm px-2 py-1 rounded hover:bg-[#e8eaed] dark:hover:bg-[#3c4043] text-[#202124] dark:text-[#e8eaed] truncate"
+                  title={view.name}
+                >
+                  {view.name}
+                </button>
+                <button
+                  onClick={() => onDeleteView(view)}
+                  disabled={savingView}
+                  className="p-1 text-[#9aa0a6] hover:text-[#d93025] opacity-0 group-hover:opacity-100"
+                  title="Delete view"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-xs font-medium text-[#9aa0a6] uppercase tracking-wider">Tags</h3>
+          {selectedTags.length > 0 && (
+            <button onClick={onClearTags} className="text-xs text-[#1a73e8] hover:underline">
+              Clear
+            </button>
+          )}
+        </div>
+        {tags.length === 0 ? (
+          <p className="text-xs text-[#9aa0a6]">No tags yet. Add them under Details on an asset.</p>
+        ) : (
+          <ul className="space-y-1">
+            {tags.map(({ tag, count }) => {
+              const isSelected = selectedTags.includes(tag);
+              return (
+                <li key={tag}>
+                  <button
+                    onClick={() => onToggleTag(tag)}
+                    className={`w-full flex items-center justify-between text-sm px-2 py-1 rounded transition-colors ${
+                      isSelected
+                        ? 'bg-[#e8f0fe] text-[#174ea6] dark:bg-[#1a73e8]/20 dark:text-[#8ab4f8]'
+                        : 'text-[#202124] dark:text-[#e8eaed] hover:bg-[#e8eaed] dark:hover:bg-[#3c4043]'
+                    }`}
+                  >
+                    <span className="truncate">{tag}</span>
+                    <span className="text-xs text-[#9aa0a6]">{count}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+});
+
 const Dashboard = memo<{
   user: User;
   activeView: string;
   onChangeRepo: () => void;
-  onToast: (message: string, type?: 'success' | 'error') => void;
+  onToast: (message: string, type?: 'success' | 'error', action?: ToastAction) => void;
 }>(({ user, activeView, onChangeRepo, onToast }) => {
   const [assets, setAssets] = useState<Asset[]>([]);
   const [folders, setFolders] = useState<FolderEntry[]>([]);
@@ -709,18 +1355,38 @@ const Dashboard = memo<{
   const [newFolderName, setNewFolderName] = useState('');
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
+  const [variantWidthsInput, setVariantWidthsInput] = useState('');
   const [uploadingFileName, setUploadingFileName] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadWarning, setUploadWarning] = useState<string | null>(null);
   const [folderActionError, setFolderActionError] = useState<string | null>(null);
   const [folderActionLoading, setFolderActionLoading] = useState(false);
   const [movingAssetPath, setMovingAssetPath] = useState<string | null>(null);
   const [expandedAssets, setExpandedAssets] = useState<Record<string, boolean>>({});
+  const [listingIncomplete, setListingIncomplete] = useState(false);
   const [imagePreviewAttempts, setImagePreviewAttempts] = useState<Record<string, number>>({});
   const [copying, setCopying] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [assetSort, setAssetSort] = useState<AssetSortOption>('name:asc');
+  const [assetTypeFilter, setAssetTypeFilter] = useState<AssetTypeFilter>('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalAssets, setTotalAssets] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [allTags, setAllTags] = useState<TagCount[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedAssetView[]>([]);
+  const [savingView, setSavingView] = useState(false);
+  const [selectedAssetPaths, setSelectedAssetPaths] = useState<Record<string, boolean>>({});
+  const [bulkTagsInput, setBulkTagsInput] = useState('');
+  const [bulkTagging, setBulkTagging] = useState(false);
   const [showNewFolderInput, setShowNewFolderInput] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const [replaceTarget, setReplaceTarget] = useState<Asset | null>(null);
+  const [historyAssetPath, setHistoryAssetPath] = useState<string | null>(null);
+  const [metadataAssetPath, setMetadataAssetPath] = useState<string | null>(null);
 
   // API App state
   const [apiAppName, setApiAppName] = useState('');
@@ -728,63 +1394,349 @@ const Dashboard = memo<{
   const [apiAppExtensions, setApiAppExtensions] = useState('');
   const [apiAppMaxMb, setApiAppMaxMb] = useState('4');
   const [apiAppTtlDays, setApiAppTtlDays] = useState('90');
+  const [apiAppOverwritePolicy, setApiAppOverwritePolicy] = useState<OverwritePolicy>('fail');
+  const [apiAppOptimization, setApiAppOptimization] = useState<'' | 'off' | ImageOutputFormat>('');
+  const [apiAppStripMetadata, setApiAppStripMetadata] = useState(true);
   const [apiAppLoading, setApiAppLoading] = useState(false);
   const [apiAppError, setApiAppError] = useState<string | null>(null);
   const [createdApiApp, setCreatedApiApp] = useState<ApiAppCredential | null>(null);
 
+  // Repository settings state
+  const [repoConfig, setRepoConfig] = useState<RepoConfig | null>(null);
+  const [lfsEnabledDraft, setLfsEnabledDraft] = useState(false);
+  const [lfsFoldersDraft, setLfsFoldersDraft] = useState('');
+  const [namingStrategyDraft, setNamingStrategyDraft] = useState<NamingStrategy>('timestamp');
+  const [cdnProviderDraft, setCdnProviderDraft] = useState<CdnProvider>('jsdelivr');
+  const [cdnTemplateDraft, setCdnTemplateDraft] = useState('');
+  const [trashRetentionDraft, setTrashRetentionDraft] = useState('30');
+  const [manifestEnabledDraft, setManifestEnabledDraft] = useState(false);
+  const [optimizationDraft, setOptimizationDraft] = useState<ImageOptimizationSettings>({
+    enabled: false,
+    quality: 80,
+    format: 'original',
+    keep_original: false,
+  });
+  const [optimizationFolderDraft, setOptimizationFolderDraft] = useState('');
+  const [trashItems, setTrashItems] = useState<TrashItem[] | null>(null);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+  const [trashActionId, setTrashActionId] = useState<string | null>(null);
+  const [configSaving, setConfigSaving] = useState(false);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [duplicatesReport, setDuplicatesReport] = useState<DuplicatesReport | null>(null);
+  const [duplicatesLoading, setDuplicatesLoading] = useState(false);
+  const [releaseTags, setReleaseTags] = useState<ReleaseTag[]>([]);
+  const [newTagName, setNewTagName] = useState('');
+  const [tagCreating, setTagCreating] = useState(false);
+
+  // Searching, sorting and paging happen on the server, so large folders only load one page.
+  const buildAssetsEndpoint = useCallback((targetFolder: string, cursor?: string) => {
+    const [sort, order] = assetSort.split(':');
+    const params = new URLSearchParams({ sort, order });
+    if (targetFolder) params.set('folder', targetFolder);
+    if (assetTypeFilter) params.set('type', assetTypeFilter);
+    if (debouncedSearch) params.set('q', debouncedSearch);
+    if (selectedTags.length > 0) params.set('tags', selectedTags.join(','));
+    // Searches and tag filters look through every subfolder.
+    if (debouncedSearch || selectedTags.length > 0) params.set('recursive', 'true');
+    if (cursor) params.set('cursor', cursor);
+    return `/api/assets?${params.toString()}`;
+  }, [assetSort, assetTypeFilter, debouncedSearch, selectedTags]);
+
   const fetchAssets = useCallback(async (targetFolder: string) => {
     try {
-      const params = new URLSearchParams();
-      if (targetFolder) params.set('folder', targetFolder);
-      const endpoint = params.toString() ? `/api/assets?${params.toString()}` : '/api/assets';
-      const res = await fetch(endpoint);
+      const res = await fetch(buildAssetsEndpoint(targetFolder));
       
       if (!res.ok) {
+        // 422 means the sort needs narrower filters, which the user can act on.
+        if (res.status === 422) {
+          onToast((await readUploadError(res, 'Failed to fetch assets')).message, 'error');
+        }
         setAssets([]);
         setFolders([]);
         setAllFolders([]);
+        setNextCursor(null);
         return;
       }
 
       const data = await res.json() as AssetsResponse;
       setAssets(data.files ?? []);
+      setNextCursor(data.next_cursor ?? null);
+      setTotalAssets(data.total ?? data.files?.length ?? 0);
       setFolders(data.folders ?? []);
       setAllFolders(data.all_folders ?? []);
+      setAllTags(data.all_tags ?? []);
       setCurrentFolder(data.current_folder ?? targetFolder);
+      setListingIncomplete(data.complete === false);
       setImagePreviewAttempts({});
       setExpandedAssets({});
+      setSelectedAssetPaths({});
     } catch (err) {
       console.error(err);
       setAssets([]);
       setFolders([]);
       setAllFolders([]);
+      setNextCursor(null);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [buildAssetsEndpoint, onToast]);
+
+  const loadMoreAssets = useCallback(async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(buildAssetsEndpoint(currentFolder, nextCursor));
+      if (!res.ok) {
+        onToast('Failed to load more assets', 'error');
+        return;
+      }
+
+      const data = await res.json() as AssetsResponse;
+      setAssets(prev => [...prev, ...(data.files ?? [])]);
+      setNextCursor(data.next_cursor ?? null);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to load more assets', 'error');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [buildAssetsEndpoint, currentFolder, nextCursor, onToast]);
+
+  const undoCommit = useCallback(async (commitSha: string) => {
+    try {
+      const res = await fetch('/api/undo', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ commit_sha: commitSha }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        const conflicts: string[] = errorData?.conflicts ?? [];
+        onToast(`${errorData?.error || 'Undo failed.'}${conflicts.length ? ` ${conflicts.join(', ')}` : ''}`, 'error');
+        return;
+      }
+
+      onToast('Change undone');
+      await fetchAssets(currentFolder);
+    } catch (err) {
+      console.error(err);
+      onToast('Undo failed', 'error');
+    }
+  }, [currentFolder, fetchAssets, onToast]);
+
+  // Only operations that produced a new commit can be undone.
+  const undoAction = useCallback((commitSha: string | null | undefined): ToastAction | undefined => {
+    return commitSha ? { label: 'Undo', onClick: () => undoCommit(commitSha) } : undefined;
+  }, [undoCommit]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
+  // Runs on mount and again whenever the search, sort, type or tag filter changes.
   useEffect(() => {
-    fetchAssets('');
+    fetchAssets(currentFolder);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [fetchAssets]);
 
-  const filteredAssets = useMemo(() => {
-    if (!searchQuery) return assets;
-    return assets.filter(a => 
-      a.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      a.path.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [assets, searchQuery]);
+  const applyRepoConfig = useCallback((config: RepoConfig) => {
+    setRepoConfig(config);
+    setLfsEnabledDraft(config.lfs.enabled);
+    setLfsFoldersDraft(config.lfs.folders.join(', '));
+    setNamingStrategyDraft(config.naming.strategy);
+    setCdnProviderDraft(config.cdn.provider);
+    setCdnTemplateDraft(config.cdn.template ?? '');
+    setTrashRetentionDraft(String(config.trash.retention_days));
+    setSavedViews(config.views);
+    setManifestEnabledDraft(config.manifest.enabled);
+    setOptimizationDraft({
+      enabled: config.optimization.enabled,
+      quality: config.optimization.quality,
+      format: config.optimization.format,
+      keep_original: config.optimization.keep_original,
+    });
+  }, []);
 
-  const openFolder = useCallback(async (path: string) => {
-    setLoading(true);
-    setFolderActionError(null);
-    setShowNewFolderInput(false);
-    setNewFolderName('');
-    await fetchAssets(path);
-  }, [fetchAssets]);
+  // The assets view needs the config too, for the saved views.
+  useEffect(() => {
+    if (activeView !== 'settings' && activeView !== 'dashboard') return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/config');
+        if (!res.ok) return;
+        const data = await res.json() as RepoConfig;
+        if (!cancelled) applyRepoConfig(data);
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [activeView, applyRepoConfig]);
 
-  const handleUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const saveRepoConfig = useCallback(async (update: Partial<RepoConfig>) => {
+    setConfigSaving(true);
+    setConfigError(null);
+    try {
+      const res = await fetch('/api/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        setConfigError(errorData?.error || 'Failed to save settings.');
+        return;
+      }
+
+      const data = await res.json() as { config: RepoConfig };
+      applyRepoConfig(data.config);
+      onToast('Settings saved');
+    } catch (err) {
+      console.error(err);
+      setConfigError('Failed to save settings.');
+    } finally {
+      setConfigSaving(false);
+    }
+  }, [applyRepoConfig, onToast]);
+
+  useEffect(() => {
+    if (activeView !== 'settings') return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/tags');
+        if (!res.ok) return;
+        const data = await res.json() as { tags: ReleaseTag[] };
+        if (!cancelled) setReleaseTags(data.tags);
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [activeView]);
+
+  const createReleaseTag = useCallback(async () => {
+    setTagCreating(true);
+    try {
+      const res = await fetch('/api/tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newTagName.trim() ? { tag: newTagName.trim() } : {}),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        onToast(errorData?.error || 'Failed to create tag', 'error');
+        return;
+      }
+
+      const data = await res.json() as { tag: string; commit_sha: string; cdn_base_url: string };
+      setReleaseTags(prev => [{ name: data.tag, commit_sha: data.commit_sha, cdn_base_url: data.cdn_base_url }, ...prev]);
+      setNewTagName('');
+      onToast(`Tagged ${data.tag}`);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to create tag', 'error');
+    } finally {
+      setTagCreating(false);
+    }
+  }, [newTagName, onToast]);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const res = await fetch('/api/trash');
+      if (!res.ok) {
+        onToast('Failed to load trash', 'error');
+        return;
+      }
+
+      const data = await res.json() as { retention_days: number; items: TrashItem[] };
+      setTrashItems(data.items);
+      setTrashRetentionDays(data.retention_days);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to load trash', 'error');
+    }
+  }, [onToast]);
+
+  useEffect(() => {
+    if (activeView !== 'trash') return;
+    setTrashItems(null);
+    fetchTrash();
+  }, [activeView, fetchTrash]);
+
+  const trashBatches = useMemo(() => {
+    const batches: { trashId: string; deletedAt: number; expiresAt: number; items: TrashItem[] }[] = [];
+    for (const item of trashItems ?? []) {
+      const batch = batches.find(entry => entry.trashId === item.trash_id);
+      if (batch) {
+        batch.items.push(item);
+      } else {
+        batches.push({ trashId: item.trash_id, deletedAt: item.deleted_at, expiresAt: item.expires_at, items: [item] });
+      }
+    }
+    return batches;
+  }, [trashItems]);
+
+  const runTrashAction = useCallback(async (action: 'restore' | 'purge', ids: string[] | null, actionId: string) => {
+    if (action === 'purge' && !confirm(ids ? 'Delete these files permanently?' : 'Empty the trash? This cannot be undone.')) return;
+
+    setTrashActionId(actionId);
+    try {
+      const res = await fetch(`/api/trash/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        const conflicts: string[] = errorData?.conflicts ?? [];
+        onToast(`${errorData?.error || 'Trash action failed.'}${conflicts.length ? ` ${conflicts.join(', ')}` : ''}`, 'error');
+        return;
+      }
+
+      onToast(action === 'restore' ? 'Restored from trash' : 'Deleted permanently');
+      await fetchTrash();
+    } catch (err) {
+      console.error(err);
+      onToast('Trash action failed', 'error');
+    } finally {
+      setTrashActionId(null);
+    }
+  }, [fetchTrash, onToast]);
+
+  const findDuplicates = useCallback(async () => {
+    setDuplicatesLoading(true);
+    try {
+      const res = await fetch('/api/assets/duplicates');
+      if (!res.ok) {
+        onToast('Failed to find duplicates', 'error');
+        return;
+      }
+
+      setDuplicatesReport(await res.json() as DuplicatesReport);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to find duplicates', 'error');
+    } finally {
+      setDuplicatesLoading(false);
+    }
+  }, [onToast]);
+
+  const openFolder = useCallback(async (path: string) => {
+    setLoading(true);
+    setFolderActionError(null);
+    setShowNewFolderInput(false);
+    setNewFolderName('');
+    await fetchAssets(path);
+  }, [fetchAssets]);
+
+  const handleUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles: File[] = Array.from(e.target.files ?? []);
     const fileInput = e.target;
     if (selectedFiles.length === 0) return;
@@ -804,50 +1756,144 @@ const Dashboard = memo<{
     });
 
     setUploadError(null);
+    setUploadWarning(null);
     setUploading(true);
     setUploadingFileName(selectedFiles.length === 1 ? selectedFiles[0].name : `${selectedFiles.length} files`);
 
+    // Large files bypass the JSON endpoints and are sent as resumable parts. Without staging
+    // on the server, everything that fits in one JSON body is sent inline.
+    const chunkedUploads = user.chunked_uploads;
+    const isLargeFile = (file: File) => chunkedUploads
+      ? file.size > CHUNKED_UPLOAD_THRESHOLD_BYTES
+      : inlineUploadBytes(file) > INLINE_UPLOAD_MAX_BYTES;
+    const largeFiles = selectedFiles.filter(isLargeFile);
+    const smallFiles = selectedFiles.filter(file => !isLargeFile(file));
     const failedUploads: string[] = [];
+    const warnings: string[] = [];
+    const duplicateNotices: string[] = [];
+    const commitShas: string[] = [];
+    const widths = variantWidthsInput.trim() || undefined;
     let uploadedCount = 0;
+    let savedBytes = 0;
 
     try {
-      for (let index = 0; index < selectedFiles.length; index += 1) {
-        const file = selectedFiles[index];
-        setUploadingFileName(selectedFiles.length === 1 ? file.name : `${index + 1} of ${selectedFiles.length}: ${file.name}`);
-
+      if (smallFiles.length === 1) {
+        const file = smallFiles[0];
         try {
           const content = await readFileAsDataUrl(file);
           const res = await fetch('/api/upload', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ name: file.name, folder: currentFolder, content })
+            body: JSON.stringify({ name: file.name, folder: currentFolder, content, widths })
           });
 
           if (!res.ok) {
             const errorData = await res.json().catch(() => null);
             failedUploads.push(`${file.name}: ${errorData?.error || 'Upload failed.'}`);
-            continue;
+          } else {
+            const data = await res.json() as UploadedAsset;
+            if (data.duplicate) duplicateNotices.push(`${file.name} is already stored as ${data.path}.`);
+            if (!data.duplicate && !data.unchanged && data.commit_sha) commitShas.push(data.commit_sha);
+            savedBytes += data.bytes_saved ?? 0;
+            uploadedCount += 1;
+          }
+        } catch (err) {
+          console.error(err);
+          failedUploads.push(err instanceof Error ? err.message : `${file.name}: Upload failed.`);
+        }
+      } else if (smallFiles.length > 1) {
+        // Multi-file selections go through the batch endpoint so they land as one commit.
+        // When the server can stage uploads, files are sent in parts first, so no request
+        // carries a whole group.
+        for (const group of groupBatchUploads(smallFiles, !chunkedUploads)) {
+          const uploadIds: string[] = [];
+          try {
+            const files: ({ upload_id: string } | { name: string; content: string })[] = [];
+            for (let index = 0; index < group.length; index += 1) {
+              const file = group[index];
+              if (chunkedUploads) {
+                setUploadingFileName(`sending ${index + 1} of ${group.length}: ${file.name}`);
+                const uploadId = await stageFileInParts(file, currentFolder, undefined, () => undefined);
+                uploadIds.push(uploadId);
+                files.push({ upload_id: uploadId });
+              } else {
+                setUploadingFileName(`reading ${index + 1} of ${group.length}: ${file.name}`);
+                files.push({ name: file.name, content: await readFileAsDataUrl(file) });
+              }
+            }
+
+            setUploadingFileName(`${group.length} files`);
+            const res = await fetch('/api/upload/batch', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ folder: currentFolder, files, widths })
+            });
+
+            if (!res.ok) {
+              throw await readUploadError(res, 'Batch upload failed.');
+            }
+
+            const data = await res.json() as { commit_sha: string | null; bytes_saved: number; files: UploadedAsset[] };
+            data.files.forEach((uploaded, index) => {
+              if (uploaded.duplicate) duplicateNotices.push(`${group[index].name} is already stored as ${uploaded.path}.`);
+            });
+            if (data.commit_sha) commitShas.push(data.commit_sha);
+            savedBytes += data.bytes_saved;
+            uploadedCount += group.length;
+          } catch (err) {
+            console.error(err);
+            await Promise.all(uploadIds.map(discardStagedUpload));
+            failedUploads.push(err instanceof Error ? err.message : 'Batch upload failed.');
           }
+        }
+      }
+
+      for (const file of largeFiles) {
+        if (!chunkedUploads) {
+          failedUploads.push(`${file.name}: This server cannot stage uploads, so files above ${formatSize(INLINE_UPLOAD_MAX_BYTES * 3 / 4)} are not accepted.`);
+          continue;
+        }
 
+        try {
+          const uploaded = await uploadFileInParts(file, currentFolder, widths, (done, total) => {
+            setUploadingFileName(`${file.name} (part ${done} of ${total})`);
+          });
+          if (uploaded.warning) warnings.push(`${file.name}: ${uploaded.warning}`);
+          if (uploaded.duplicate) duplicateNotices.push(`${file.name} is already stored as ${uploaded.path}.`);
+          if (!uploaded.duplicate && !uploaded.unchanged && uploaded.commit_sha) commitShas.push(uploaded.commit_sha);
+          savedBytes += uploaded.bytes_saved ?? 0;
           uploadedCount += 1;
         } catch (err) {
           console.error(err);
-          failedUploads.push(err instanceof Error ? err.message : `${file.name}: Upload failed.`);
+          failedUploads.push(`${file.name}: ${err instanceof Error ? err.message : 'Upload failed.'}`);
         }
       }
 
+      if (duplicateNotices.length > 0) {
+        warnings.push(`${duplicateNotices.join(' ')} Existing URLs were reused instead of uploading copies.`);
+      }
+
+      if (warnings.length > 0) {
+        setUploadWarning(warnings.join(' '));
+      }
+
       if (uploadedCount > 0) {
         await fetchAssets(currentFolder);
       }
 
       if (failedUploads.length === 0) {
-        onToast(uploadedCount === 1 ? 'File uploaded successfully' : `${uploadedCount} files uploaded successfully`);
+        const uploadedMessage = uploadedCount === 1 ? 'File uploaded successfully' : `${uploadedCount} files uploaded successfully`;
+        onToast(
+          savedBytes > 0 ? `${uploadedMessage}, ${formatSize(savedBytes)} saved by optimization` : uploadedMessage,
+          'success',
+          commitShas.length === 1 ? undoAction(commitShas[0]) : undefined,
+        );
         return;
       }
 
-      const errorMessage = failedUploads.length === selectedFiles.length
+      const errorMessage = uploadedCount === 0
         ? failedUploads.join(' ')
-        : `${uploadedCount} uploaded, ${failedUploads.length} failed. ${failedUploads.join(' ')}`;
+        : `${uploadedCount} uploaded, some failed. ${failedUploads.join(' ')}`;
 
       setUploadError(errorMessage);
       onToast(uploadedCount > 0 ? 'Some uploads failed' : 'Upload failed', 'error');
@@ -856,20 +1902,103 @@ const Dashboard = memo<{
       setUploadingFileName(null);
       fileInput.value = '';
     }
-  }, [currentFolder, fetchAssets, onToast]);
+  }, [currentFolder, fetchAssets, onToast, undoAction, user.chunked_uploads, variantWidthsInput]);
+
+  const handleReplace = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const fileInput = e.target;
+    const asset = replaceTarget;
+    if (!file || !asset) return;
+
+    setUploadError(null);
+    setUploadWarning(null);
+    if (file.size > CHUNKED_UPLOAD_THRESHOLD_BYTES) {
+      setUploadError(`${file.name}: Files above ${formatSize(CHUNKED_UPLOAD_THRESHOLD_BYTES)} cannot replace an asset in place.`);
+      fileInput.value = '';
+      return;
+    }
+
+    setUploading(true);
+    setUploadingFileName(`${file.name} as ${asset.name}`);
+    try {
+      const content = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => typeof reader.result === 'string' ? resolve(reader.result) : reject(new Error('Failed to read file.'));
+        reader.onerror = () => reject(new Error('Failed to read file.'));
+        reader.readAsDataURL(file);
+      });
+
+      const res = await fetch('/api/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: file.name, filename: asset.name, folder: asset.folder, content, overwrite: 'replace' }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        setUploadError(`${asset.name}: ${errorData?.error || 'Replace failed.'}`);
+        onToast('Replace failed', 'error');
+        return;
+      }
+
+      const data = await res.json() as UploadedAsset;
+      onToast(`${asset.name} replaced`, 'success', data.unchanged ? undefined : undoAction(data.commit_sha));
+      await fetchAssets(currentFolder);
+    } catch (err) {
+      console.error(err);
+      setUploadError(err instanceof Error ? err.message : 'Replace failed.');
+      onToast('Replace failed', 'error');
+    } finally {
+      setUploading(false);
+      setUploadingFileName(null);
+      setReplaceTarget(null);
+      fileInput.value = '';
+    }
+  }, [replaceTarget, currentFolder, fetchAssets, onToast, undoAction]);
+
+  const toggleHistory = useCallback((asset: Asset) => {
+    setHistoryAssetPath(prev => prev === asset.path ? null : asset.path);
+  }, []);
+
+  const handleVersionRestored = useCallback(() => {
+    setHistoryAssetPath(null);
+    fetchAssets(currentFolder);
+  }, [currentFolder, fetchAssets]);
+
+  const toggleMetadata = useCallback((asset: Asset) => {
+    setMetadataAssetPath(prev => prev === asset.path ? null : asset.path);
+  }, []);
+
+  const handleMetadataSaved = useCallback((commitSha: string | null) => {
+    setMetadataAssetPath(null);
+    onToast('Details saved', 'success', undoAction(commitSha));
+    fetchAssets(currentFolder);
+  }, [currentFolder, fetchAssets, onToast, undoAction]);
+
+  const startReplace = useCallback((asset: Asset) => {
+    setReplaceTarget(asset);
+    replaceInputRef.current?.click();
+  }, []);
 
   const handleDelete = useCallback(async (asset: Asset) => {
-    if (!confirm(`Delete "${asset.name}"?`)) return;
+    if (!confirm(`Move "${asset.name}" to trash?`)) return;
     try {
       const params = new URLSearchParams({ path: asset.path, sha: asset.sha });
-      await fetch(`/api/assets?${params.toString()}`, { method: 'DELETE' });
-      onToast('File deleted successfully');
+      const res = await fetch(`/api/assets?${params.toString()}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        onToast(errorData?.error || 'Failed to delete file', 'error');
+        return;
+      }
+
+      const data = await res.json() as { commit_sha: string };
+      onToast('File moved to trash', 'success', undoAction(data.commit_sha));
       await fetchAssets(currentFolder);
     } catch (err) {
       console.error(err);
       onToast('Failed to delete file', 'error');
     }
-  }, [currentFolder, fetchAssets, onToast]);
+  }, [currentFolder, fetchAssets, onToast, undoAction]);
 
   const handleCreateFolder = useCallback(async () => {
     const trimmed = newFolderName.trim();
@@ -892,9 +2021,10 @@ const Dashboard = memo<{
         return;
       }
 
+      const data = await res.json() as { commit_sha: string };
       setNewFolderName('');
       setShowNewFolderInput(false);
-      onToast('Folder created successfully');
+      onToast('Folder created successfully', 'success', undoAction(data.commit_sha));
       await fetchAssets(currentFolder);
     } catch (err) {
       console.error(err);
@@ -902,10 +2032,10 @@ const Dashboard = memo<{
     } finally {
       setFolderActionLoading(false);
     }
-  }, [newFolderName, currentFolder, fetchAssets, onToast]);
+  }, [newFolderName, currentFolder, fetchAssets, onToast, undoAction]);
 
   const handleDeleteFolder = useCallback(async (folderPath: string) => {
-    if (!confirm(`Delete folder "${folderPath}" and all its contents?`)) return;
+    if (!confirm(`Move folder "${folderPath}" and all its contents to trash?`)) return;
 
     setFolderActionLoading(true);
     setFolderActionError(null);
@@ -918,10 +2048,11 @@ const Dashboard = memo<{
         return;
       }
 
+      const data = await res.json() as { commit_sha: string };
       const nextFolder = currentFolder.startsWith(`${folderPath}/`) || currentFolder === folderPath
         ? getParentFolderPath(folderPath)
         : currentFolder;
-      onToast('Folder deleted successfully');
+      onToast('Folder moved to trash', 'success', undoAction(data.commit_sha));
       await fetchAssets(nextFolder);
     } catch (err) {
       console.error(err);
@@ -929,7 +2060,7 @@ const Dashboard = memo<{
     } finally {
       setFolderActionLoading(false);
     }
-  }, [currentFolder, fetchAssets, onToast]);
+  }, [currentFolder, fetchAssets, onToast, undoAction]);
 
   const parseExtensionInput = (value: string): string[] | null => {
     const trimmed = value.trim();
@@ -972,6 +2103,11 @@ const Dashboard = memo<{
           allowed_extensions: parsedExtensions,
           max_bytes: Math.round(parsedMaxMb * 1024 * 1024),
           expires_in_days: parsedTtlDays,
+          overwrite_policy: apiAppOverwritePolicy,
+          optimization: apiAppOptimization === ''
+            ? undefined
+            : apiAppOptimization === 'off' ? { enabled: false } : { format: apiAppOptimization },
+          strip_metadata: apiAppStripMetadata,
         }),
       });
 
@@ -990,25 +2126,29 @@ const Dashboard = memo<{
     } finally {
       setApiAppLoading(false);
     }
-  }, [apiAppName, apiAppFolder, apiAppExtensions, apiAppMaxMb, apiAppTtlDays, currentFolder, onToast]);
+  }, [apiAppName, apiAppFolder, apiAppExtensions, apiAppMaxMb, apiAppTtlDays, apiAppOverwritePolicy, apiAppOptimization, apiAppStripMetadata, currentFolder, onToast]);
 
-  const moveAssetToFolder = useCallback(async (assetPath: string, destinationFolder: string) => {
-    setMovingAssetPath(assetPath);
+  const requestMove = useCallback(async (body: Record<string, string>, busyPath: string, successMessage: string) => {
+    setMovingAssetPath(busyPath);
     setFolderActionError(null);
     try {
       const res = await fetch('/api/assets/move', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: assetPath, destination_folder: destinationFolder }),
+        body: JSON.stringify(body),
       });
 
       if (!res.ok) {
         const errorData = await res.json().catch(() => null);
-        setFolderActionError(errorData?.error || 'Failed to move asset.');
+        const conflicts: string[] = errorData?.conflicts ?? [];
+        setFolderActionError(
+          `${errorData?.error || 'Failed to move asset.'}${conflicts.length > 0 ? ` (${conflicts.slice(0, 5).join(', ')})` : ''}`
+        );
         return false;
       }
 
-      onToast('Asset moved successfully');
+      const data = await res.json() as { commit_sha: string | null };
+      onToast(successMessage, 'success', undoAction(data.commit_sha));
       await fetchAssets(currentFolder);
       return true;
     } catch (err) {
@@ -1018,7 +2158,31 @@ const Dashboard = memo<{
     } finally {
       setMovingAssetPath(null);
     }
-  }, [currentFolder, fetchAssets, onToast]);
+  }, [currentFolder, fetchAssets, onToast, undoAction]);
+
+  const moveAssetToFolder = useCallback((assetPath: string, destinationFolder: string) => {
+    return requestMove({ path: assetPath, destination_folder: destinationFolder }, assetPath, 'Asset moved successfully');
+  }, [requestMove]);
+
+  const renameAsset = useCallback((asset: Asset) => {
+    const nextName = prompt('Rename asset', asset.name)?.trim();
+    if (!nextName || nextName === asset.name) return;
+    return requestMove({ path: asset.path, new_name: nextName }, asset.path, 'Asset renamed successfully');
+  }, [requestMove]);
+
+  const renameFolder = useCallback((folder: FolderEntry) => {
+    const nextName = prompt('Rename folder', folder.name)?.trim();
+    if (!nextName || nextName === folder.name) return;
+    return requestMove({ folder: folder.path, new_name: nextName }, folder.path, 'Folder renamed successfully');
+  }, [requestMove]);
+
+  const moveFolder = useCallback((folder: FolderEntry) => {
+    const destination = prompt(`Move "${folder.name}" into folder (leave empty for Root)`, getParentFolderPath(folder.path));
+    if (destination == null) return;
+    const destinationFolder = destination.trim().replace(/^\/+|\/+$/g, '');
+    if (destinationFolder === getParentFolderPath(folder.path)) return;
+    return requestMove({ folder: folder.path, destination_folder: destinationFolder }, folder.path, 'Folder moved successfully');
+  }, [requestMove]);
 
   const copyToClipboard = useCallback((text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -1027,6 +2191,155 @@ const Dashboard = memo<{
     setTimeout(() => setCopying(null), 2000);
   }, [onToast]);
 
+  // Tags point at the pinned URL, because the branch URL's content can change and fail the check.
+  const copyIntegrityTag = useCallback(async (asset: Asset, kind: SriTagKind) => {
+    try {
+      const res = await fetch(`/api/assets/integrity?path=${encodeURIComponent(asset.path)}`);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        onToast(data?.error || 'Failed to compute integrity hash', 'error');
+        return;
+      }
+
+      const { integrity, pinned_cdn_url } = data as AssetIntegrity;
+      const hash = integrity.sha384 ?? integrity.sha256;
+      if (!hash) {
+        onToast('No integrity hash is available for this file', 'error');
+        return;
+      }
+
+      copyToClipboard(buildSriTag(kind, asset.name, pinned_cdn_url, hash), `${asset.sha}-sri`);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to compute integrity hash', 'error');
+    }
+  }, [copyToClipboard, onToast]);
+
+  const toggleTag = useCallback((tag: string) => {
+    setLoading(true);
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(entry => entry !== tag) : [...prev, tag]);
+  }, []);
+
+  const clearTags = useCallback(() => {
+    setLoading(true);
+    setSelectedTags([]);
+  }, []);
+
+  const toggleAssetSelected = useCallback((assetPath: string) => {
+    setSelectedAssetPaths(prev => ({ ...prev, [assetPath]: !prev[assetPath] }));
+  }, []);
+
+  const selectedPaths = useMemo(
+    () => Object.keys(selectedAssetPaths).filter(assetPath => selectedAssetPaths[assetPath]),
+    [selectedAssetPaths]
+  );
+
+  const bulkUpdateTags = useCallback(async (mode: 'add' | 'remove') => {
+    const tags = bulkTagsInput.split(',').map(tag => tag.trim()).filter(Boolean);
+    if (tags.length === 0 || selectedPaths.length === 0) return;
+
+    setBulkTagging(true);
+    try {
+      const res = await fetch('/api/metadata', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paths: selectedPaths, [mode === 'add' ? 'add_tags' : 'remove_tags']: tags }),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        onToast(data?.error || 'Failed to update tags', 'error');
+        return;
+      }
+
+      const updated = (data as { updated: string[] }).updated.length;
+      onToast(`Tags updated on ${updated} asset${updated === 1 ? '' : 's'}`, 'success', undoAction(data.commit_sha));
+      setBulkTagsInput('');
+      await fetchAssets(currentFolder);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to update tags', 'error');
+    } finally {
+      setBulkTagging(false);
+    }
+  }, [bulkTagsInput, selectedPaths, currentFolder, fetchAssets, onToast, undoAction]);
+
+  // Views are stored in the repository config, so saving one is a commit everyone sees.
+  const saveViews = useCallback(async (views: SavedAssetView[], message: string) => {
+    setSavingView(true);
+    try {
+      const res = await fetch('/api/config', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ views }),
+      });
+      const data = await res.json().catch(() => null);
+
+      if (!res.ok) {
+        onToast(data?.error || 'Failed to save views', 'error');
+        return;
+      }
+
+      applyRepoConfig((data as { config: RepoConfig }).config);
+      onToast(message);
+    } catch (err) {
+      console.error(err);
+      onToast('Failed to save views', 'error');
+    } finally {
+      setSavingView(false);
+    }
+  }, [applyRepoConfig, onToast]);
+
+  const saveCurrentView = useCallback(() => {
+    const name = prompt('Name this view')?.trim();
+    if (!name) return;
+
+    const [sort, order] = assetSort.split(':') as [SavedAssetView['sort'], SavedAssetView['order']];
+    const view: SavedAssetView = {
+      name,
+      folder: currentFolder,
+      recursive: Boolean(debouncedSearch) || selectedTags.length > 0,
+      tags: selectedTags,
+      type: assetTypeFilter || null,
+      q: debouncedSearch || null,
+      sort,
+      order,
+    };
+    const others = savedViews.filter(existing => existing.name.toLowerCase() !== name.toLowerCase());
+    if (others.length < savedViews.length && !confirm(`Replace the saved view "${name}"?`)) return;
+    saveViews([...others, view], `View "${name}" saved`);
+  }, [assetSort, currentFolder, debouncedSearch, selectedTags, assetTypeFilter, savedViews, saveViews]);
+
+  const deleteView = useCallback((view: SavedAssetView) => {
+    if (!confirm(`Delete the saved view "${view.name}" for everyone?`)) return;
+    saveViews(savedViews.filter(existing => existing.name !== view.name), `View "${view.name}" deleted`);
+  }, [savedViews, saveViews]);
+
+  const applySavedView = useCallback((view: SavedAssetView) => {
+    const nextSort = `${view.sort}:${view.order}` as AssetSortOption;
+    const nextType: AssetTypeFilter = view.type ?? '';
+    const nextSearch = view.q ?? '';
+    const filtersUnchanged =
+      nextSort === assetSort &&
+      nextType === assetTypeFilter &&
+      nextSearch === debouncedSearch &&
+      view.tags.join(',') === selectedTags.join(',');
+
+    // Changed filters refetch through the listing effect; otherwise only the folder changes.
+    if (filtersUnchanged) {
+      openFolder(view.folder);
+      return;
+    }
+
+    setLoading(true);
+    setCurrentFolder(view.folder);
+    setAssetSort(nextSort);
+    setAssetTypeFilter(nextType);
+    setSearchQuery(nextSearch);
+    setDebouncedSearch(nextSearch);
+    setSelectedTags(view.tags);
+  }, [assetSort, assetTypeFilter, debouncedSearch, selectedTags, openFolder]);
+
   const toggleAssetExpanded = useCallback((assetSha: string) => {
     setExpandedAssets(prev => ({ ...prev, [assetSha]: !prev[assetSha] }));
   }, []);
@@ -1096,6 +2409,40 @@ const Dashboard = memo<{
                   <Input value={apiAppTtlDays} onChange={setApiAppTtlDays} type="number" />
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-[#202124] dark:text-[#e8eaed] mb-1.5">Existing Files</label>
+                <select
+                  value={apiAppOverwritePolicy}
+                  onChange={(e) => setApiAppOverwritePolicy(e.target.value as OverwritePolicy)}
+                  className="w-full py-2.5 px-4 text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg text-[#202124] dark:text-[#e8eaed]"
+                >
+                  <option value="fail">Fail with 409</option>
+                  <option value="rename">Rename with -1, -2 suffix</option>
+                  <option value="replace">Replace in place</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[#202124] dark:text-[#e8eaed] mb-1.5">Image Optimization</label>
+                <select
+                  value={apiAppOptimization}
+                  onChange={(e) => setApiAppOptimization(e.target.value as '' | 'off' | ImageOutputFormat)}
+                  className="w-full py-2.5 px-4 text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg text-[#202124] dark:text-[#e8eaed]"
+                >
+                  <option value="">Use repository and folder settings</option>
+                  <option value="off">Off</option>
+                  {(Object.keys(IMAGE_OUTPUT_FORMAT_LABELS) as ImageOutputFormat[]).map(format => (
+                    <option key={format} value={format}>Compress: {IMAGE_OUTPUT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-3 text-sm text-[#202124] dark:text-[#e8eaed]">
+                <input
+                  type="checkbox"
+                  checked={apiAppStripMetadata}
+                  onChange={(e) => setApiAppStripMetadata(e.target.checked)}
+                />
+                Strip EXIF, GPS and other metadata from JPEG, PNG and WebP uploads
+              </label>
             </div>
 
             {apiAppError && (
@@ -1144,6 +2491,76 @@ const Dashboard = memo<{
     );
   }
 
+  if (activeView === 'trash') {
+    return (
+      <div className="p-4 lg:p-8 max-w-4xl">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-semibold text-[#202124] dark:text-[#e8eaed]">Trash</h2>
+            <p className="text-[#5f6368] dark:text-[#9aa0a6]">Deleted files are kept for {trashRetentionDays} days before they are purged</p>
+          </div>
+          {trashBatches.length > 0 && (
+            <Button variant="danger" onClick={() => runTrashAction('purge', null, 'all')} loading={trashActionId === 'all'} disabled={trashActionId != null}>
+              Empty Trash
+            </Button>
+          )}
+        </div>
+
+        {!trashItems ? (
+          <div className="flex items-center gap-2 text-sm text-[#5f6368]">
+            <Loader2 className="w-4 h-4 spinner" />
+            Loading trash...
+          </div>
+        ) : trashBatches.length === 0 ? (
+          <EmptyState icon={<Trash2 className="w-8 h-8" />} title="Trash is empty" description="Deleted files and folders show up here." />
+        ) : (
+          <div className="space-y-4">
+            {trashBatches.map(batch => (
+              <Card key={batch.trashId}>
+                <div className="p-4 border-b border-[#dadce0] dark:border-[#5f6368] flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-[#202124] dark:text-[#e8eaed]">Deleted {new Date(batch.deletedAt).toLocaleString()}</p>
+                    <p className="text-xs text-[#9aa0a6]">Purged after {new Date(batch.expiresAt).toLocaleDateString()}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      icon={<RotateCcw className="w-4 h-4" />}
+                      onClick={() => runTrashAction('restore', [batch.trashId], `restore-${batch.trashId}`)}
+                      loading={trashActionId === `restore-${batch.trashId}`}
+                      disabled={trashActionId != null}
+                    >
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runTrashAction('purge', [batch.trashId], `purge-${batch.trashId}`)}
+                      loading={trashActionId === `purge-${batch.trashId}`}
+                      disabled={trashActionId != null}
+                    >
+                      Delete Forever
+                    </Button>
+                  </div>
+                </div>
+                <ul className="divide-y divide-[#e8eaed] dark:divide-[#3c4043]">
+                  {batch.items.map(item => (
+                    <li key={item.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+                      <File className="w-4 h-4 text-[#9aa0a6]" />
+                      <span className="flex-1 truncate font-mono text-xs text-[#202124] dark:text-[#e8eaed]" title={item.path}>{item.path}</span>
+                      <span className="text-xs text-[#9aa0a6]">{formatSize(item.size)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   if (activeView === 'settings') {
     return (
       <div className="p-4 lg:p-8 max-w-2xl">
@@ -1172,6 +2589,375 @@ const Dashboard = memo<{
           </div>
         </Card>
 
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">CDN Provider</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">Which host builds the public URLs for this repository</p>
+          </div>
+          <div className="p-6 space-y-4">
+            <select
+              value={cdnProviderDraft}
+              onChange={(e) => setCdnProviderDraft(e.target.value as CdnProvider)}
+              disabled={!repoConfig}
+              className="w-full py-2.5 px-4 text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg text-[#202124] dark:text-[#e8eaed] disabled:opacity-50"
+            >
+              {(Object.keys(CDN_PROVIDER_LABELS) as CdnProvider[]).map(provider => (
+                <option key={provider} value={provider}>{CDN_PROVIDER_LABELS[provider]}</option>
+              ))}
+            </select>
+            {cdnProviderDraft === 'custom' && (
+              <div>
+                <label className="block text-sm font-medium text-[#202124] dark:text-[#e8eaed] mb-1.5">URL Template</label>
+                <Input
+                  value={cdnTemplateDraft}
+                  onChange={setCdnTemplateDraft}
+                  placeholder="https://cdn.example.com/{asset_path}"
+                />
+                <p className="text-xs text-[#9aa0a6] mt-1">Placeholders: {'{owner}'}, {'{repo}'}, {'{ref}'}, {'{path}'} (from the repo root), {'{asset_path}'} (inside assets/)</p>
+              </div>
+            )}
+            {cdnProviderDraft === 'github-pages' && (
+              <p className="text-xs text-[#9aa0a6]">Pages must publish the selected branch. Pinned URLs use jsDelivr because Pages only serves one branch.</p>
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveRepoConfig({
+                  cdn: { provider: cdnProviderDraft, template: cdnProviderDraft === 'custom' ? cdnTemplateDraft.trim() : null },
+                })}
+                loading={configSaving}
+                disabled={!repoConfig}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">Trash Retention</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">Days deleted files stay in the trash before they are purged</p>
+          </div>
+          <div className="p-6 flex items-center gap-3">
+            <Input
+              type="number"
+              value={trashRetentionDraft}
+              onChange={setTrashRetentionDraft}
+              disabled={!repoConfig}
+              className="flex-1"
+            />
+            <Button
+              onClick={() => saveRepoConfig({ trash: { retention_days: Number(trashRetentionDraft) } })}
+              loading={configSaving}
+              disabled={!repoConfig || trashRetentionDraft === String(repoConfig.trash.retention_days)}
+            >
+              Save
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">Asset Manifest</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">A JSON index of every asset with its size, SRI hash, URLs and image dimensions</p>
+          </div>
+          <div className="p-6 space-y-4">
+            <label className="flex items-center gap-3 text-sm text-[#202124] dark:text-[#e8eaed]">
+              <input
+                type="checkbox"
+                checked={manifestEnabledDraft}
+                onChange={(e) => setManifestEnabledDraft(e.target.checked)}
+                disabled={!repoConfig}
+              />
+              Keep <code className="text-xs">assets/manifest.json</code> updated in every GitCDN commit
+            </label>
+            <div className="flex items-center justify-between gap-3">
+              <a href="/api/manifest" target="_blank" rel="noreferrer" className="text-sm text-[#1a73e8] hover:underline flex items-center gap-1">
+                <ExternalLink className="w-3.5 h-3.5" />
+                View current manifest
+              </a>
+              <Button
+                onClick={() => saveRepoConfig({ manifest: { enabled: manifestEnabledDraft } })}
+                loading={configSaving}
+                disabled={!repoConfig || manifestEnabledDraft === repoConfig.manifest.enabled}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">Image Optimization</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">Re-encode JPEG, PNG, WebP, AVIF and TIFF uploads before they are committed</p>
+          </div>
+          <div className="p-6 space-y-4">
+            <label className="flex items-center gap-3 text-sm text-[#202124] dark:text-[#e8eaed]">
+              <input
+                type="checkbox"
+                checked={optimizationDraft.enabled}
+                onChange={(e) => setOptimizationDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+                disabled={!repoConfig}
+              />
+              Optimize uploaded images
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-[#202124] dark:text-[#e8eaed] mb-1.5">Quality (1-100)</label>
+                <Input
+                  type="number"
+                  value={String(optimizationDraft.quality)}
+                  onChange={(value) => setOptimizationDraft(prev => ({ ...prev, quality: Number(value) }))}
+                  disabled={!repoConfig}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-[#202124] dark:text-[#e8eaed] mb-1.5">Format</label>
+                <select
+                  value={optimizationDraft.format}
+                  onChange={(e) => setOptimizationDraft(prev => ({ ...prev, format: e.target.value as ImageOutputFormat }))}
+                  disabled={!repoConfig}
+                  className="w-full py-2.5 px-4 text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg text-[#202124] dark:text-[#e8eaed] disabled:opacity-50"
+                >
+                  {(Object.keys(IMAGE_OUTPUT_FORMAT_LABELS) as ImageOutputFormat[]).map(format => (
+                    <option key={format} value={format}>{IMAGE_OUTPUT_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <label className="flex items-center gap-3 text-sm text-[#202124] dark:text-[#e8eaed]">
+              <input
+                type="checkbox"
+                checked={optimizationDraft.keep_original}
+                onChange={(e) => setOptimizationDraft(prev => ({ ...prev, keep_original: e.target.checked }))}
+                disabled={!repoConfig}
+              />
+              Keep the original next to the optimized file as <code className="text-xs">name.original.ext</code>
+            </label>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => repoConfig && saveRepoConfig({ optimization: { ...optimizationDraft, folders: repoConfig.optimization.folders } })}
+                loading={configSaving}
+                disabled={!repoConfig}
+              >
+                Save for repository
+              </Button>
+            </div>
+
+            <div className="pt-4 border-t border-[#dadce0] dark:border-[#5f6368] space-y-3">
+              <p className="text-sm font-medium text-[#202124] dark:text-[#e8eaed]">Folder overrides</p>
+              {repoConfig && Object.keys(repoConfig.optimization.folders).length > 0 ? (
+                <div className="space-y-2">
+                  {Object.keys(repoConfig.optimization.folders).map(folder => (
+                    <div key={folder} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="truncate text-[#202124] dark:text-[#e8eaed]">
+                        <code className="text-xs">{folder}/</code>
+                        <span className="text-[#5f6368] dark:text-[#9aa0a6]"> · {describeOptimization({ ...repoConfig.optimization, ...repoConfig.optimization.folders[folder] })}</span>
+                      </span>
+                      <button
+                        onClick={() => {
+                          const folders = { ...repoConfig.optimization.folders };
+                          delete folders[folder];
+                          saveRepoConfig({ optimization: { ...repoConfig.optimization, folders } });
+                        }}
+                        disabled={configSaving}
+                        className="text-xs text-[#d93025] hover:underline disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-[#9aa0a6]">Every folder uses the repository settings.</p>
+              )}
+              <div className="flex items-center gap-3">
+                <Input
+                  value={optimizationFolderDraft}
+                  onChange={setOptimizationFolderDraft}
+                  placeholder="Folder, e.g. photos/raw"
+                  disabled={!repoConfig}
+                  className="flex-1"
+                />
+                <Button
+                  variant="secondary"
+                  onClick={() => {
+                    const folder = optimizationFolderDraft.trim().replace(/^\/+|\/+$/g, '');
+                    if (!repoConfig || !folder) return;
+                    // Only the fields that differ from the repository settings are stored.
+                    const override = Object.fromEntries(
+                      (Object.keys(optimizationDraft) as (keyof ImageOptimizationSettings)[])
+                        .filter(key => optimizationDraft[key] !== repoConfig.optimization[key])
+                        .map(key => [key, optimizationDraft[key]]),
+                    ) as Partial<ImageOptimizationSettings>;
+                    saveRepoConfig({
+                      optimization: {
+                        ...repoConfig.optimization,
+                        folders: { ...repoConfig.optimization.folders, [folder]: override },
+                      },
+                    });
+                    setOptimizationFolderDraft('');
+                  }}
+                  loading={configSaving}
+                  disabled={!repoConfig || !optimizationFolderDraft.trim()}
+                >
+                  Use above settings for folder
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">File Naming</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">How uploads from the dashboard and API apps are named</p>
+          </div>
+          <div className="p-6 flex items-center gap-3">
+            <select
+              value={namingStrategyDraft}
+              onChange={(e) => setNamingStrategyDraft(e.target.value as NamingStrategy)}
+              disabled={!repoConfig}
+              className="flex-1 py-2.5 px-4 text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg text-[#202124] dark:text-[#e8eaed] disabled:opacity-50"
+            >
+              <option value="original">Original name (hero-banner.jpg, hero-banner-1.jpg)</option>
+              <option value="hash">Content hash (3f2a9c0d1e7b4a5c6d8e.jpg)</option>
+              <option value="timestamp">Timestamp + random (1774537525283-ee2ca8c42f44e6f3.jpg)</option>
+            </select>
+            <Button
+              onClick={() => saveRepoConfig({ naming: { strategy: namingStrategyDraft } })}
+              loading={configSaving}
+              disabled={!repoConfig || namingStrategyDraft === repoConfig.naming.strategy}
+            >
+              Save
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">Large File Storage</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">Store uploads as Git LFS objects and commit pointer files instead</p>
+          </div>
+          <div className="p-6 space-y-4">
+            {!repoConfig ? (
+              <div className="flex items-center gap-2 text-sm text-[#5f6368]">
+                <Loader2 className="w-4 h-4 spinner" />
+                Loading settings...
+              </div>
+            ) : (
+              <>
+                <label className="flex items-center gap-3 text-sm text-[#202124] dark:text-[#e8eaed]">
+                  <input
+                    type="checkbox"
+                    checked={lfsEnabledDraft}
+                    onChange={(e) => setLfsEnabledDraft(e.target.checked)}
+                  />
+                  Use LFS for the whole repository
+                </label>
+                <div>
+                  <label className="block text-sm font-medium text-[#202124] dark:text-[#e8eaed] mb-1.5">LFS Folders</label>
+                  <Input
+                    value={lfsFoldersDraft}
+                    onChange={setLfsFoldersDraft}
+                    placeholder="videos, docs/pdf (comma-separated)"
+                    disabled={lfsEnabledDraft}
+                  />
+                  <p className="text-xs text-[#9aa0a6] mt-1">LFS objects are served from media.githubusercontent.com instead of jsDelivr.</p>
+                </div>
+                {configError && (
+                  <div className="p-3 bg-[#fce8e8] dark:bg-[#d93025]/20 text-[#d93025] text-sm rounded-lg">{configError}</div>
+                )}
+                <div className="flex justify-end">
+                  <Button
+                    onClick={() => saveRepoConfig({
+                      lfs: {
+                        enabled: lfsEnabledDraft,
+                        folders: lfsFoldersDraft.split(',').map(f => f.trim()).filter(Boolean),
+                      },
+                    })}
+                    loading={configSaving}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
+            <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">Versioned URLs</h3>
+            <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">Tag the current {user.selected_branch || 'main'} head so every asset has a URL that never changes</p>
+          </div>
+          <div className="p-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <Input
+                value={newTagName}
+                onChange={setNewTagName}
+                placeholder="Tag name (defaults to today's date, e.g. v2026.10.19)"
+                className="flex-1"
+              />
+              <Button onClick={createReleaseTag} loading={tagCreating} icon={<Plus className="w-4 h-4" />}>
+                Create Tag
+              </Button>
+            </div>
+            {releaseTags.length > 0 && (
+              <ul className="space-y-2">
+                {releaseTags.map(tag => (
+                  <li key={tag.name} className="flex items-center gap-2 p-2 bg-[#f8f9fa] dark:bg-[#171717] rounded-lg">
+                    <Badge variant="primary">{tag.name}</Badge>
+                    <code className="text-xs font-mono truncate flex-1 text-[#5f6368]">{tag.cdn_base_url}</code>
+                    <button
+                      onClick={() => copyToClipboard(tag.cdn_base_url, `tag-${tag.name}`)}
+                      className="p-1 hover:bg-white dark:hover:bg-[#202124] rounded"
+                    >
+                      {copying === `tag-${tag.name}` ? <Check className="w-3.5 h-3.5 text-[#188038]" /> : <Copy className="w-3.5 h-3.5" />}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </Card>
+
+        <Card className="mb-6">
+          <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368] flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">Duplicate Files</h3>
+              <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">Assets stored more than once with identical content</p>
+            </div>
+            <Button variant="secondary" onClick={findDuplicates} loading={duplicatesLoading}>
+              {duplicatesReport ? 'Scan Again' : 'Scan'}
+            </Button>
+          </div>
+          {duplicatesReport && (
+            <div className="p-6 space-y-4">
+              {duplicatesReport.groups.length === 0 ? (
+                <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">No duplicates found.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">
+                    {duplicatesReport.duplicate_files} redundant {duplicatesReport.duplicate_files === 1 ? 'copy' : 'copies'} using {formatSize(duplicatesReport.wasted_bytes)}
+                  </p>
+                  {duplicatesReport.groups.map(group => (
+                    <div key={group.sha} className="p-3 bg-[#f8f9fa] dark:bg-[#3c4043] rounded-lg">
+                      <p className="text-xs text-[#9aa0a6] mb-2">{group.files.length} copies, {formatSize(group.size)} each</p>
+                      <ul className="space-y-1">
+                        {group.files.map(file => (
+                          <li key={file.path} className="text-sm font-mono text-[#202124] dark:text-[#e8eaed] truncate">{file.path}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </Card>
+
         <Card>
           <div className="p-6 border-b border-[#dadce0] dark:border-[#5f6368]">
             <h3 className="font-semibold text-[#202124] dark:text-[#e8eaed]">About GitCDN</h3>
@@ -1187,7 +2973,7 @@ const Dashboard = memo<{
             </div>
             <div className="flex items-center justify-between py-2">
               <span className="text-sm text-[#5f6368] dark:text-[#9aa0a6]">CDN Provider</span>
-              <span className="text-sm font-medium text-[#202124] dark:text-[#e8eaed]">jsDelivr</span>
+              <span className="text-sm font-medium text-[#202124] dark:text-[#e8eaed]">{CDN_PROVIDER_LABELS[repoConfig?.cdn.provider ?? 'jsdelivr']}</span>
             </div>
           </div>
         </Card>
@@ -1218,6 +3004,24 @@ const Dashboard = memo<{
             icon={<Search className="w-4 h-4" />}
             className="w-64"
           />
+          <select
+            value={assetTypeFilter}
+            onChange={(e) => setAssetTypeFilter(e.target.value as AssetTypeFilter)}
+            className="text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg px-2 py-2 text-[#202124] dark:text-[#e8eaed]"
+          >
+            {(Object.keys(ASSET_TYPE_LABELS) as AssetTypeFilter[]).map(type => (
+              <option key={type} value={type}>{ASSET_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+          <select
+            value={assetSort}
+            onChange={(e) => setAssetSort(e.target.value as AssetSortOption)}
+            className="text-sm bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded-lg px-2 py-2 text-[#202124] dark:text-[#e8eaed]"
+          >
+            {(Object.keys(ASSET_SORT_LABELS) as AssetSortOption[]).map(option => (
+              <option key={option} value={option}>{ASSET_SORT_LABELS[option]}</option>
+            ))}
+          </select>
           <div className="flex items-center bg-white dark:bg-[#202124] rounded-lg border border-[#dadce0] dark:border-[#5f6368] p-1">
             <button
               onClick={() => setViewMode('grid')}
@@ -1233,6 +3037,13 @@ const Dashboard = memo<{
             </button>
           </div>
           <input type="file" className="hidden" ref={fileInputRef} onChange={handleUpload} accept="image/*,video/*,audio/*,application/pdf" multiple />
+          <input type="file" className="hidden" ref={replaceInputRef} onChange={handleReplace} />
+          <Input
+            value={variantWidthsInput}
+            onChange={setVariantWidthsInput}
+            placeholder="Variant widths, e.g. 640,1280"
+            className="w-56"
+          />
           <Button onClick={() => fileInputRef.current?.click()} loading={uploading} icon={<Plus className="w-4 h-4" />}>
             Upload
           </Button>
@@ -1287,6 +3098,16 @@ const Dashboard = memo<{
         </div>
       )}
 
+      {listingIncomplete && (
+        <div className="mb-4 p-4 bg-[#fef3e8] dark:bg-[#b06000]/20 text-[#b06000] rounded-lg text-sm">
+          This repository is too large to list in full. Some files and folders may be missing.
+        </div>
+      )}
+
+      {uploadWarning && (
+        <div className="mb-4 p-4 bg-[#fef3e8] dark:bg-[#b06000]/20 text-[#b06000] rounded-lg text-sm">{uploadWarning}</div>
+      )}
+
       {uploadError && (
         <div className="mb-4 p-4 bg-[#fce8e8] dark:bg-[#d93025]/20 text-[#d93025] rounded-lg text-sm">{uploadError}</div>
       )}
@@ -1295,291 +3116,569 @@ const Dashboard = memo<{
         <div className="mb-4 p-4 bg-[#fce8e8] dark:bg-[#d93025]/20 text-[#d93025] rounded-lg text-sm">{folderActionError}</div>
       )}
 
-      {/* Content */}
-      {loading ? (
-        <div className="flex items-center justify-center py-20">
-          <Loader2 className="w-10 h-10 text-[#1a73e8] spinner" />
-        </div>
-      ) : filteredAssets.length === 0 && folders.length === 0 ? (
-        <Card>
-          <EmptyState
-            icon={<Upload className="w-10 h-10" />}
-            title={searchQuery ? 'No matching assets' : 'No assets yet'}
-            description={searchQuery ? `No results for "${searchQuery}"` : 'Upload files or create folders to get started'}
-            action={!searchQuery && (
-              <div className="flex gap-3">
-                <Button onClick={() => fileInputRef.current?.click()} icon={<Plus className="w-4 h-4" />}>
-                  Upload First Asset
-                </Button>
-                <Button variant="secondary" onClick={() => setShowNewFolderInput(true)} icon={<FolderPlus className="w-4 h-4" />}>
-                  New Folder
-                </Button>
-              </div>
-            )}
+      <div className="flex flex-col lg:flex-row gap-6">
+        {(allTags.length > 0 || savedViews.length > 0 || selectedTags.length > 0) && (
+          <TagSidebar
+            tags={allTags}
+            selectedTags={selectedTags}
+            views={savedViews}
+            savingView={savingView}
+            onToggleTag={toggleTag}
+            onClearTags={clearTags}
+            onApplyView={applySavedView}
+            onSaveView={saveCurrentView}
+            onDeleteView={deleteView}
           />
-        </Card>
-      ) : (
-        <div className="space-y-4">
-          {/* Folders */}
-          {folders.length > 0 && (
-            <div>
-              <div className="flex items-center justify-between mb-3">
-                <h3 className="text-xs font-medium text-[#9aa0a6] uppercase tracking-wider">Folders</h3>
-                {!showNewFolderInput && (
-                  <button 
-                    onClick={() => setShowNewFolderInput(true)}
-                    className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
-                  >
-                    <Plus className="w-3 h-3" />
-                    New Folder
-                  </button>
-                )}
-              </div>
-              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
-                {folders.map(folder => (
-                  <div
-                    key={folder.path}
-                    className="flex items-center gap-3 p-3 bg-white dark:bg-[#202124] rounded-lg border border-[#dadce0] dark:border-[#5f6368] hover:border-[#9aa0a6] dark:hover:border-[#9aa0a6] transition-all cursor-pointer group"
-                  >
-                    <button onClick={() => openFolder(folder.path)} className="flex items-center gap-3 flex-1 min-w-0">
-                      <Folder className="w-5 h-5 text-[#1a73e8] flex-shrink-0" />
-                      <span className="text-sm font-medium truncate">{folder.name}</span>
-                    </button>
-                    <button
-                      onClick={() => handleDeleteFolder(folder.path)}
-                      disabled={folderActionLoading}
-                      className="p-1.5 text-[#9aa0a6] hover:text-[#d93025] hover:bg-[#fce8e8] rounded opacity-0 group-hover:opacity-100 transition-all"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                ))}
-              </div>
+        )}
+        <div className="flex-1 min-w-0">
+          {/* Bulk tagging */}
+          {selectedPaths.length > 0 && (
+            <div className="mb-4 p-3 bg-[#e8f0fe] dark:bg-[#1a73e8]/10 border border-[#1a73e8]/20 rounded-lg flex flex-wrap items-center gap-3">
+              <span className="text-sm font-medium text-[#174ea6] dark:text-[#8ab4f8]">{selectedPaths.length} selected</span>
+              <Input
+                value={bulkTagsInput}
+                onChange={setBulkTagsInput}
+                placeholder="Tags, separated by commas"
+                disabled={bulkTagging}
+                className="flex-1 min-w-[12rem]"
+              />
+              <Button size="sm" onClick={() => bulkUpdateTags('add')} loading={bulkTagging} disabled={!bulkTagsInput.trim()}>
+                Add tags
+              </Button>
+              <Button size="sm" variant="secondary" onClick={() => bulkUpdateTags('remove')} disabled={bulkTagging || !bulkTagsInput.trim()}>
+                Remove tags
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedAssetPaths({})}>
+                Clear selection
+              </Button>
             </div>
           )}
 
-          {/* Assets */}
-          {filteredAssets.length > 0 && (
-            <div>
-              <h3 className="text-xs font-medium text-[#9aa0a6] uppercase tracking-wider mb-3">Files</h3>
+          {/* Content */}
+          {loading ? (
+            <div className="flex items-center justify-center py-20">
+              <Loader2 className="w-10 h-10 text-[#1a73e8] spinner" />
+            </div>
+          ) : assets.length === 0 && folders.length === 0 ? (
+            <Card>
+              <EmptyState
+                icon={<Upload className="w-10 h-10" />}
+                title={searchQuery || assetTypeFilter || selectedTags.length > 0 ? 'No matching assets' : 'No assets yet'}
+                description={searchQuery ? `No results for "${searchQuery}"` : selectedTags.length > 0 ? `No assets tagged ${selectedTags.join(' + ')}` : assetTypeFilter ? `No ${ASSET_TYPE_LABELS[assetTypeFilter].toLowerCase()} in this folder` : 'Upload files or create folders to get started'}
+                action={!searchQuery && !assetTypeFilter && selectedTags.length === 0 && (
+                  <div className="flex gap-3">
+                    <Button onClick={() => fileInputRef.current?.click()} icon={<Plus className="w-4 h-4" />}>
+                      Upload First Asset
+                    </Button>
+                    <Button variant="secondary" onClick={() => setShowNewFolderInput(true)} icon={<FolderPlus className="w-4 h-4" />}>
+                      New Folder
+                    </Button>
+                  </div>
+                )}
+              />
+            </Card>
+          ) : (
+            <div className="space-y-4">
+              {/* Folders */}
+              {folders.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-xs font-medium text-[#9aa0a6] uppercase tracking-wider">Folders</h3>
+                    {!showNewFolderInput && (
+                      <button 
+                        onClick={() => setShowNewFolderInput(true)}
+                        className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                      >
+                        <Plus className="w-3 h-3" />
+                        New Folder
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+                    {folders.map(folder => (
+                      <div
+                        key={folder.path}
+                        className="flex items-center gap-3 p-3 bg-white dark:bg-[#202124] rounded-lg border border-[#dadce0] dark:border-[#5f6368] hover:border-[#9aa0a6] dark:hover:border-[#9aa0a6] transition-all cursor-pointer group"
+                      >
+                        <button onClick={() => openFolder(folder.path)} className="flex items-center gap-3 flex-1 min-w-0">
+                          <Folder className="w-5 h-5 text-[#1a73e8] flex-shrink-0" />
+                          <span className="text-sm font-medium truncate">{folder.name}</span>
+                        </button>
+                        <button
+                          onClick={() => renameFolder(folder)}
+                          disabled={folderActionLoading || movingAssetPath === folder.path}
+                          className="p-1.5 text-[#9aa0a6] hover:text-[#1a73e8] hover:bg-[#e8f0fe] rounded opacity-0 group-hover:opacity-100 transition-all"
+                          title="Rename"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => moveFolder(folder)}
+                          disabled={folderActionLoading || movingAssetPath === folder.path}
+                          className="p-1.5 text-[#9aa0a6] hover:text-[#1a73e8] hover:bg-[#e8f0fe] rounded opacity-0 group-hover:opacity-100 transition-all"
+                          title="Move"
+                        >
+                          <ArrowRightLeft className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteFolder(folder.path)}
+                          disabled={folderActionLoading}
+                          className="p-1.5 text-[#9aa0a6] hover:text-[#d93025] hover:bg-[#fce8e8] rounded opacity-0 group-hover:opacity-100 transition-all"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Assets */}
+              {assets.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-medium text-[#9aa0a6] uppercase tracking-wider mb-3">Files</h3>
               
-              {viewMode === 'grid' ? (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                  {filteredAssets.map(asset => {
-                    const isExpanded = expandedAssets[asset.sha];
-                    const isMoving = movingAssetPath === asset.path;
-                    return (
-                      <Card key={asset.sha} className="overflow-hidden">
-                        {/* Preview */}
-                        <div className="aspect-video bg-[#f8f9fa] dark:bg-[#171717] relative overflow-hidden flex items-center justify-center group">
-                          {isImageAsset(asset.name) && getPreviewUrl(asset) ? (
-                            <img
-                              src={getPreviewUrl(asset)!}
-                              alt={asset.name}
-                              className="w-full h-full object-cover"
-                              loading="lazy"
-                              onError={() => handlePreviewError(asset)}
-                            />
-                          ) : isVideoAsset(asset.name) ? (
-                            <Video className="w-10 h-10 text-[#9aa0a6]" />
-                          ) : (
-                            <FileText className="w-10 h-10 text-[#9aa0a6]" />
-                          )}
-                          
-                          {/* Quick Actions Overlay */}
-                          <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                            <button
-                              onClick={() => window.open(asset.cdn_url, '_blank')}
-                              className="p-2 bg-white rounded-lg text-[#202124] hover:bg-[#f1f3f4]"
-                              title="Open"
-                            >
-                              <ExternalLink className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => handleDelete(asset)}
-                              className="p-2 bg-white rounded-lg text-[#d93025] hover:bg-[#fce8e8]"
-                              title="Delete"
+                  {viewMode === 'grid' ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                      {assets.map(asset => {
+                        const isExpanded = expandedAssets[asset.sha];
+                        const isMoving = movingAssetPath === asset.path;
+                        const sriTagKind = getSriTagKind(asset.name);
+                        return (
+                          <Card key={asset.sha} className="overflow-hidden">
+                            {/* Preview */}
+                            <div
+                              className="aspect-video bg-[#f8f9fa] dark:bg-[#171717] bg-cover bg-center relative overflow-hidden flex items-center justify-center group"
+                              style={asset.image ? {
+                                backgroundColor: asset.image.dominant_color,
+                                backgroundImage: `url(${asset.image.placeholder})`,
+                              } : undefined}
                             >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
-                        </div>
-
-                        {/* Info */}
-                        <div className="p-3">
-                          <div className="flex items-start justify-between gap-2">
-                            <div className="min-w-0 flex-1">
-                              <p className="font-medium text-sm text-[#202124] dark:text-[#e8eaed] truncate" title={asset.name}>{asset.name}</p>
-                              <p className="text-xs text-[#9aa0a6]">{formatSize(asset.size)}</p>
+                              {isImageAsset(asset.name) && getPreviewUrl(asset) ? (
+                                <img
+                                  src={getPreviewUrl(asset)!}
+                                  alt={asset.metadata?.alt || asset.name}
+                                  className="w-full h-full object-cover"
+                                  loading="lazy"
+                                  onError={() => handlePreviewError(asset)}
+                                />
+                              ) : isVideoAsset(asset.name) ? (
+                                <Video className="w-10 h-10 text-[#9aa0a6]" />
+                              ) : (
+                                <FileText className="w-10 h-10 text-[#9aa0a6]" />
+                              )}
+                          
+                              <input
+                                type="checkbox"
+                                checked={Boolean(selectedAssetPaths[asset.path])}
+                                onChange={() => toggleAssetSelected(asset.path)}
+                                className="absolute top-2 left-2 z-10 w-4 h-4"
+                                title="Select"
+                              />
+
+                              {/* Quick Actions Overlay */}
+                              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                                <button
+                                  onClick={() => window.open(asset.cdn_url, '_blank')}
+                                  className="p-2 bg-white rounded-lg text-[#202124] hover:bg-[#f1f3f4]"
+                                  title="Open"
+                                >
+                                  <ExternalLink className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(asset)}
+                                  className="p-2 bg-white rounded-lg text-[#d93025] hover:bg-[#fce8e8]"
+                                  title="Delete"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
                             </div>
-                            <button
-                              onClick={() => toggleAssetExpanded(asset.sha)}
-                              className={`p-1 text-[#9aa0a6] hover:text-[#1a73e8] hover:bg-[#e8f0fe] rounded transition-all ${isExpanded ? 'bg-[#e8f0fe] text-[#1a73e8]' : ''}`}
-                              title="Actions"
-                            >
-                              <ChevronRight className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
-                            </button>
-                          </div>
-
-                          {/* URL - Always visible */}
-                          <div className="flex items-center gap-2 mt-3 p-2 bg-[#f8f9fa] dark:bg-[#171717] rounded-lg">
-                            <code className="text-xs font-mono truncate flex-1 text-[#5f6368]">{asset.cdn_url}</code>
-                            <button
-                              onClick={() => copyToClipboard(asset.cdn_url, asset.sha)}
-                              className="p-1 hover:bg-white dark:hover:bg-[#202124] rounded"
-                            >
-                              {copying === asset.sha ? <Check className="w-3.5 h-3.5 text-[#188038]" /> : <Copy className="w-3.5 h-3.5" />}
-                            </button>
-                          </div>
-
-                          {/* Expandable Actions */}
-                          {isExpanded && (
-                            <div className="mt-3 pt-3 border-t border-[#dadce0] dark:border-[#5f6368] space-y-3 animate-fade-in">
-                              {/* Move to Folder */}
-                              <div>
-                                <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] mb-1.5 block">
-                                  {isMoving ? 'Moving...' : 'Move to Folder'}
-                                </label>
-                                <div className="flex items-center gap-2">
-                                  <select
-                                    onChange={(e) => {
-                                      const val = e.target.value;
-                                      if (val !== asset.folder && val !== '__placeholder') {
-                                        moveAssetToFolder(asset.path, val);
-                                        e.target.value = '__placeholder';
-                                      }
-                                    }}
-                                    disabled={isMoving}
-                                    className="flex-1 text-xs bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded px-2 py-1.5 disabled:opacity-50"
-                                    defaultValue="__placeholder"
-                                  >
-                                    <option value="__placeholder" disabled>Select folder...</option>
-                                    <option value="">📁 Root</option>
-                                    {allFolders.map(f => (
-                                      <option key={f} value={f} disabled={f === asset.folder}>
-                                        {'  '.repeat(f.split('/').length)}📁 {f.split('/').pop()}
-                                      </option>
-                                    ))}
-                                  </select>
-                                  {isMoving && <Loader2 className="w-4 h-4 text-[#1a73e8] spinner" />}
+
+                            {/* Info */}
+                            <div className="p-3">
+                              <div className="flex items-start justify-between gap-2">
+                                <div className="min-w-0 flex-1">
+                                  <p className="font-medium text-sm text-[#202124] dark:text-[#e8eaed] truncate" title={asset.name}>{asset.name}</p>
+                                  <p className="text-xs text-[#9aa0a6] flex items-center gap-2">
+                                    {formatSize(asset.size)}
+                                    {asset.image && <span>{asset.image.width}×{asset.image.height}</span>}
+                                    {asset.storage === 'lfs' && <Badge variant="primary">LFS</Badge>}
+                                  </p>
+                                  {asset.last_modified && (
+                                    <p className="text-xs text-[#9aa0a6] truncate" title={asset.last_commit?.message}>
+                                      Updated {formatRelativeTime(asset.last_modified)}
+                                      {asset.last_commit && ` by ${asset.last_commit.committer.login || asset.last_commit.committer.name || 'unknown'}`}
+                                    </p>
+                                  )}
+                                  {asset.metadata && asset.metadata.tags.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                      {asset.metadata.tags.map(tag => <Badge key={tag}>{tag}</Badge>)}
+                                    </div>
+                                  )}
                                 </div>
+                                <button
+                                  onClick={() => toggleAssetExpanded(asset.sha)}
+                                  className={`p-1 text-[#9aa0a6] hover:text-[#1a73e8] hover:bg-[#e8f0fe] rounded transition-all ${isExpanded ? 'bg-[#e8f0fe] text-[#1a73e8]' : ''}`}
+                                  title="Actions"
+                                >
+                                  <ChevronRight className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                                </button>
                               </div>
 
-                              {/* Path */}
-                              <div>
-                                <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] mb-1 block">Path</label>
-                                <code className="text-xs text-[#9aa0a6] block">{asset.path}</code>
+                              {/* URL - Always visible */}
+                              <div className="flex items-center gap-2 mt-3 p-2 bg-[#f8f9fa] dark:bg-[#171717] rounded-lg">
+                                <code className="text-xs font-mono truncate flex-1 text-[#5f6368]">{asset.cdn_url}</code>
+                                <button
+                                  onClick={() => copyToClipboard(asset.cdn_url, asset.sha)}
+                                  className="p-1 hover:bg-white dark:hover:bg-[#202124] rounded"
+                                >
+                                  {copying === asset.sha ? <Check className="w-3.5 h-3.5 text-[#188038]" /> : <Copy className="w-3.5 h-3.5" />}
+                                </button>
                               </div>
-                            </div>
-                          )}
-                        </div>
-                      </Card>
-                    );
-                  })}
-                </div>
-              ) : (
-                // List view
-                <Card className="overflow-hidden">
-                  <table className="w-full text-sm">
-                    <thead className="bg-[#f8f9fa] dark:bg-[#3c4043]">
-                      <tr>
-                        <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Name</th>
-                        <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Size</th>
-                        <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">URL</th>
-                        <th className="text-right px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-[#e8eaed] dark:divide-[#3c4043]">
-                      {filteredAssets.map(asset => {
-                        const isMoving = movingAssetPath === asset.path;
-                        return (
-                          <React.Fragment key={asset.sha}>
-                            <tr className="hover:bg-[#f8f9fa]/50 dark:hover:bg-[#3c4043]/50">
-                              <td className="px-4 py-3">
-                                <div className="flex items-center gap-3">
-                                  {isImageAsset(asset.name) ? <ImageIcon className="w-4 h-4 text-[#1a73e8]" /> : <File className="w-4 h-4 text-[#9aa0a6]" />}
-                                  <span className="font-medium truncate max-w-[200px]" title={asset.name}>{asset.name}</span>
-                                </div>
-                              </td>
-                              <td className="px-4 py-3 text-[#5f6368]">{formatSize(asset.size)}</td>
-                              <td className="px-4 py-3">
-                                <code className="text-xs font-mono text-[#5f6368] truncate max-w-[300px] block">{asset.cdn_url}</code>
-                              </td>
-                              <td className="px-4 py-3">
-                                <div className="flex items-center justify-end gap-1">
-                                  <button
-                                    onClick={() => copyToClipboard(asset.cdn_url, asset.sha)}
-                                    className="p-1.5 hover:bg-[#e8eaed] dark:hover:bg-[#3c4043] rounded"
-                                    title="Copy URL"
-                                  >
-                                    {copying === asset.sha ? <Check className="w-4 h-4 text-[#188038]" /> : <Copy className="w-4 h-4" />}
-                                  </button>
-                                  <button
-                                    onClick={() => window.open(asset.cdn_url, '_blank')}
-                                    className="p-1.5 hover:bg-[#e8eaed] dark:hover:bg-[#3c4043] rounded"
-                                    title="Open"
-                                  >
-                                    <ExternalLink className="w-4 h-4" />
-                                  </button>
-                                  <button
-                                    onClick={() => toggleAssetExpanded(asset.sha)}
-                                    className={`p-1.5 rounded ${expandedAssets[asset.sha] ? 'bg-[#e8f0fe] text-[#1a73e8]' : 'hover:bg-[#e8eaed] dark:hover:bg-[#3c4043]'}`}
-                                    title="More"
-                                  >
-                                    <ChevronRight className={`w-4 h-4 transition-transform ${expandedAssets[asset.sha] ? 'rotate-90' : ''}`} />
-                                  </button>
-                                  <button
-                                    onClick={() => handleDelete(asset)}
-                                    className="p-1.5 hover:bg-[#fce8e8] text-[#d93025] rounded"
-                                    title="Delete"
-                                  >
-                                    <Trash2 className="w-4 h-4" />
-                                  </button>
-                                </div>
-                              </td>
-                            </tr>
-                            {expandedAssets[asset.sha] && (
-                              <tr className="bg-[#f8f9fa] dark:bg-[#171717]">
-                                <td colSpan={4} className="px-4 py-3 animate-fade-in">
-                                  <div className="flex items-center gap-4">
-                                    <span className="text-xs text-[#5f6368]">Move to:</span>
-                                    <select
-                                      onChange={(e) => {
-                                        const val = e.target.value;
-                                        if (val !== asset.folder && val !== '__placeholder') {
-                                          moveAssetToFolder(asset.path, val);
-                                          e.target.value = '__placeholder';
-                                        }
-                                      }}
-                                      disabled={isMoving}
-                                      className="text-xs bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded px-2 py-1 disabled:opacity-50"
-                                      defaultValue="__placeholder"
+
+                              {/* Expandable Actions */}
+                              {isExpanded && (
+                                <div className="mt-3 pt-3 border-t border-[#dadce0] dark:border-[#5f6368] space-y-3 animate-fade-in">
+                                  {/* Pinned URL */}
+                                  {asset.pinned_cdn_url && (
+                                    <div>
+                                      <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] mb-1.5 block">Pinned to Commit</label>
+                                      <div className="flex items-center gap-2 p-2 bg-[#f8f9fa] dark:bg-[#171717] rounded-lg">
+                                        <code className="text-xs font-mono truncate flex-1 text-[#5f6368]">{asset.pinned_cdn_url}</code>
+                                        <button
+                                          onClick={() => copyToClipboard(asset.pinned_cdn_url!, `${asset.sha}-pinned`)}
+                                          className="p-1 hover:bg-white dark:hover:bg-[#202124] rounded"
+                                        >
+                                          {copying === `${asset.sha}-pinned` ? <Check className="w-3.5 h-3.5 text-[#188038]" /> : <Copy className="w-3.5 h-3.5" />}
+                                        </button>
+                                      </div>
+                                    </div>
+                                  )}
+
+                                  {/* Integrity tag */}
+                                  {sriTagKind && (
+                                    <button
+                                      onClick={() => copyIntegrityTag(asset, sriTagKind)}
+                                      className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
                                     >
-                                      <option value="__placeholder" disabled>Select folder...</option>
-                                      <option value="">📁 Root</option>
-                                      {allFolders.map(f => (
-                                        <option key={f} value={f} disabled={f === asset.folder}>
-                                          {f}
-                                        </option>
-                                      ))}
-                                    </select>
-                                    {isMoving && <Loader2 className="w-4 h-4 text-[#1a73e8] spinner" />}
-                                    <span className="text-xs text-[#9aa0a6]">Path: {asset.path}</span>
+                                      {copying === `${asset.sha}-sri` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                      Copy {SRI_TAG_LABELS[sriTagKind]} with integrity
+                                    </button>
+                                  )}
+
+                                  {/* Responsive variants */}
+                                  {asset.variants && asset.variants.length > 0 && (
+                                    <button
+                                      onClick={() => copyToClipboard(buildSrcsetSnippet(asset, asset.variants!), `${asset.sha}-srcset`)}
+                                      className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                    >
+                                      {copying === `${asset.sha}-srcset` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                      Copy srcset snippet ({asset.variants.map(variant => `${variant.width}w`).join(', ')})
+                                    </button>
+                                  )}
+
+                                  {/* Move to Folder */}
+                                  <div>
+                                    <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] mb-1.5 block">
+                                      {isMoving ? 'Moving...' : 'Move to Folder'}
+                                    </label>
+                                    <div className="flex items-center gap-2">
+                                      <select
+                                        onChange={(e) => {
+                                          const val = e.target.value;
+                                          if (val !== asset.folder && val !== '__placeholder') {
+                                            moveAssetToFolder(asset.path, val);
+                                            e.target.value = '__placeholder';
+                                          }
+                                        }}
+                                        disabled={isMoving}
+                                        className="flex-1 text-xs bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded px-2 py-1.5 disabled:opacity-50"
+                                        defaultValue="__placeholder"
+                                      >
+                                        <option value="__placeholder" disabled>Select folder...</option>
+                                        <option value="">📁 Root</option>
+                                        {allFolders.map(f => (
+                                          <option key={f} value={f} disabled={f === asset.folder}>
+                                            {'  '.repeat(f.split('/').length)}📁 {f.split('/').pop()}
+                                          </option>
+                                        ))}
+                                      </select>
+                                      {isMoving && <Loader2 className="w-4 h-4 text-[#1a73e8] spinner" />}
+                                    </div>
                                   </div>
-                                </td>
-                              </tr>
-                            )}
-                          </React.Fragment>
+
+                                  {/* Path */}
+                                  <div>
+                                    <div className="flex items-center justify-between mb-1">
+                                      <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] block">Path</label>
+                                      <div className="flex items-center gap-3">
+                                        <button
+                                          onClick={() => renameAsset(asset)}
+                                          disabled={isMoving}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                          <Pencil className="w-3 h-3" />
+                                          Rename
+                                        </button>
+                                        <button
+                                          onClick={() => startReplace(asset)}
+                                          disabled={isMoving || uploading}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                          <Upload className="w-3 h-3" />
+                                          Replace
+                                        </button>
+                                        <button
+                                          onClick={() => toggleHistory(asset)}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                        >
+                                          <History className="w-3 h-3" />
+                                          History
+                                        </button>
+                                        <button
+                                          onClick={() => toggleMetadata(asset)}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                        >
+                                          <FileText className="w-3 h-3" />
+                                          Details
+                                        </button>
+                                      </div>
+                                    </div>
+                                    <code className="text-xs text-[#9aa0a6] block">{asset.path}</code>
+                                  </div>
+
+                                  {/* Details */}
+                                  {metadataAssetPath === asset.path && (
+                                    <div>
+                                      <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] mb-1.5 block">Details</label>
+                                      <AssetMetadataEditor asset={asset} onSaved={handleMetadataSaved} onToast={onToast} />
+                                    </div>
+                                  )}
+
+                                  {/* History */}
+                                  {historyAssetPath === asset.path && (
+                                    <div>
+                                      <label className="text-xs font-medium text-[#5f6368] dark:text-[#9aa0a6] mb-1.5 block">History</label>
+                                      <AssetHistoryPanel asset={asset} onRestored={handleVersionRestored} onToast={onToast} />
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          </Card>
                         );
                       })}
-                    </tbody>
-                  </table>
-                </Card>
+                    </div>
+                  ) : (
+                    // List view
+                    <Card className="overflow-hidden">
+                      <table className="w-full text-sm">
+                        <thead className="bg-[#f8f9fa] dark:bg-[#3c4043]">
+                          <tr>
+                            <th className="w-10 px-4 py-3" />
+                            <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Name</th>
+                            <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Size</th>
+                            <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Modified</th>
+                            <th className="text-left px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">URL</th>
+                            <th className="text-right px-4 py-3 font-medium text-[#5f6368] dark:text-[#9aa0a6]">Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-[#e8eaed] dark:divide-[#3c4043]">
+                          {assets.map(asset => {
+                            const isMoving = movingAssetPath === asset.path;
+                            const sriTagKind = getSriTagKind(asset.name);
+                            return (
+                              <React.Fragment key={asset.sha}>
+                                <tr className="hover:bg-[#f8f9fa]/50 dark:hover:bg-[#3c4043]/50">
+                                  <td className="px-4 py-3">
+                                    <input
+                                      type="checkbox"
+                                      checked={Boolean(selectedAssetPaths[asset.path])}
+                                      onChange={() => toggleAssetSelected(asset.path)}
+                                      title="Select"
+                                    />
+                                  </td>
+                                  <td className="px-4 py-3">
+                                    <div className="flex items-center gap-3">
+                                      {isImageAsset(asset.name) ? <ImageIcon className="w-4 h-4 text-[#1a73e8]" /> : <File className="w-4 h-4 text-[#9aa0a6]" />}
+                                      <span className="font-medium truncate max-w-[200px]" title={asset.name}>{asset.name}</span>
+                                    </div>
+                                  </td>
+                                  <td className="px-4 py-3 text-[#5f6368]">
+                                    {formatSize(asset.size)}
+                                    {asset.image && (
+                                      <span className="block text-xs text-[#9aa0a6]">{asset.image.width}×{asset.image.height}</span>
+                                    )}
+                                  </td>
+                                  <td className="px-4 py-3 text-[#5f6368]" title={asset.last_commit?.message}>
+                                    {asset.last_modified ? (
+                                      <div className="flex items-center gap-2">
+                                        {asset.last_commit?.committer.avatar_url && (
+                                          <img src={asset.last_commit.committer.avatar_url} alt="" className="w-5 h-5 rounded-full" />
+                                        )}
+                                        <span className="whitespace-nowrap">
+                                          {formatRelativeTime(asset.last_modified)}
+                                          {asset.last_commit && ` · ${asset.last_commit.committer.login || asset.last_commit.committer.name || 'unknown'}`}
+                                        </span>
+                                      </div>
+                                    ) : '—'}
+                                  </td>
+                                  <td className="px-4 py-3">
+                                    <code className="text-xs font-mono text-[#5f6368] truncate max-w-[300px] block">{asset.cdn_url}</code>
+                                  </td>
+                                  <td className="px-4 py-3">
+                                    <div className="flex items-center justify-end gap-1">
+                                      <button
+                                        onClick={() => copyToClipboard(asset.cdn_url, asset.sha)}
+                                        className="p-1.5 hover:bg-[#e8eaed] dark:hover:bg-[#3c4043] rounded"
+                                        title="Copy URL"
+                                      >
+                                        {copying === asset.sha ? <Check className="w-4 h-4 text-[#188038]" /> : <Copy className="w-4 h-4" />}
+                                      </button>
+                                      <button
+                                        onClick={() => window.open(asset.cdn_url, '_blank')}
+                                        className="p-1.5 hover:bg-[#e8eaed] dark:hover:bg-[#3c4043] rounded"
+                                        title="Open"
+                                      >
+                                        <ExternalLink className="w-4 h-4" />
+                                      </button>
+                                      <button
+                                        onClick={() => toggleAssetExpanded(asset.sha)}
+                                        className={`p-1.5 rounded ${expandedAssets[asset.sha] ? 'bg-[#e8f0fe] text-[#1a73e8]' : 'hover:bg-[#e8eaed] dark:hover:bg-[#3c4043]'}`}
+                                        title="More"
+                                      >
+                                        <ChevronRight className={`w-4 h-4 transition-transform ${expandedAssets[asset.sha] ? 'rotate-90' : ''}`} />
+                                      </button>
+                                      <button
+                                        onClick={() => handleDelete(asset)}
+                                        className="p-1.5 hover:bg-[#fce8e8] text-[#d93025] rounded"
+                                        title="Delete"
+                                      >
+                                        <Trash2 className="w-4 h-4" />
+                                      </button>
+                                    </div>
+                                  </td>
+                                </tr>
+                                {expandedAssets[asset.sha] && (
+                                  <tr className="bg-[#f8f9fa] dark:bg-[#171717]">
+                                    <td colSpan={6} className="px-4 py-3 animate-fade-in">
+                                      <div className="flex items-center gap-4">
+                                        <span className="text-xs text-[#5f6368]">Move to:</span>
+                                        <select
+                                          onChange={(e) => {
+                                            const val = e.target.value;
+                                            if (val !== asset.folder && val !== '__placeholder') {
+                                              moveAssetToFolder(asset.path, val);
+                                              e.target.value = '__placeholder';
+                                            }
+                                          }}
+                                          disabled={isMoving}
+                                          className="text-xs bg-white dark:bg-[#202124] border border-[#dadce0] dark:border-[#5f6368] rounded px-2 py-1 disabled:opacity-50"
+                                          defaultValue="__placeholder"
+                                        >
+                                          <option value="__placeholder" disabled>Select folder...</option>
+                                          <option value="">📁 Root</option>
+                                          {allFolders.map(f => (
+                                            <option key={f} value={f} disabled={f === asset.folder}>
+                                              {f}
+                                            </option>
+                                          ))}
+                                        </select>
+                                        {isMoving && <Loader2 className="w-4 h-4 text-[#1a73e8] spinner" />}
+                                        <button
+                                          onClick={() => renameAsset(asset)}
+                                          disabled={isMoving}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                          <Pencil className="w-3 h-3" />
+                                          Rename
+                                        </button>
+                                        <button
+                                          onClick={() => startReplace(asset)}
+                                          disabled={isMoving || uploading}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1 disabled:opacity-50"
+                                        >
+                                          <Upload className="w-3 h-3" />
+                                          Replace
+                                        </button>
+                                        {asset.pinned_cdn_url && (
+                                          <button
+                                            onClick={() => copyToClipboard(asset.pinned_cdn_url!, `${asset.sha}-pinned`)}
+                                            className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                          >
+                                            {copying === `${asset.sha}-pinned` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                            Pinned URL
+                                          </button>
+                                        )}
+                                        {sriTagKind && (
+                                          <button
+                                            onClick={() => copyIntegrityTag(asset, sriTagKind)}
+                                            className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                          >
+                                            {copying === `${asset.sha}-sri` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                            {SRI_TAG_LABELS[sriTagKind]}
+                                          </button>
+                                        )}
+                                        {asset.variants && asset.variants.length > 0 && (
+                                          <button
+                                            onClick={() => copyToClipboard(buildSrcsetSnippet(asset, asset.variants!), `${asset.sha}-srcset`)}
+                                            className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                          >
+                                            {copying === `${asset.sha}-srcset` ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                                            srcset
+                                          </button>
+                                        )}
+                                        <button
+                                          onClick={() => toggleHistory(asset)}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                        >
+                                          <History className="w-3 h-3" />
+                                          History
+                                        </button>
+                                        <button
+                                          onClick={() => toggleMetadata(asset)}
+                                          className="text-xs text-[#1a73e8] hover:underline flex items-center gap-1"
+                                        >
+                                          <FileText className="w-3 h-3" />
+                                          Details
+                                        </button>
+                                        <span className="text-xs text-[#9aa0a6]">Path: {asset.path}</span>
+                                      </div>
+                                      {metadataAssetPath === asset.path && (
+                                        <div className="mt-3 max-w-md">
+                                          <AssetMetadataEditor asset={asset} onSaved={handleMetadataSaved} onToast={onToast} />
+                                        </div>
+                                      )}
+                                      {historyAssetPath === asset.path && (
+                                        <div className="mt-3">
+                                          <AssetHistoryPanel asset={asset} onRestored={handleVersionRestored} onToast={onToast} />
+                                        </div>
+                                      )}
+                                    </td>
+                                  </tr>
+                                )}
+                              </React.Fragment>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </Card>
+                  )}
+
+                  {nextCursor && (
+                    <div className="mt-4 flex justify-center">
+                      <Button variant="secondary" onClick={loadMoreAssets} loading={loadingMore} size="sm">
+                        Load more ({assets.length} of {totalAssets})
+                      </Button>
+                    </div>
+                  )}
+                </div>
               )}
             </div>
           )}
         </div>
-      )}
+      </div>
 
       {/* Floating New Folder Button (when no folders exist) */}
       {!showNewFolderInput && folders.length === 0 && (
@@ -1605,7 +3704,7 @@ export default function App() {
   const [view, setView] = useState<'landing' | 'repos' | 'dashboard'>('landing');
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [activeView, setActiveView] = useState('dashboard');
-  const [toast, setToast] = useState<{message: string; type: 'success' | 'error'} | null>(null);
+  const [toast, setToast] = useState<{message: string; type: 'success' | 'error'; action?: ToastAction} | null>(null);
 
   const fetchUser = useCallback(async () => {
     try {
@@ -1694,8 +3793,8 @@ export default function App() {
     setView('landing');
   }, []);
 
-  const showToast = useCallback((message: string, type: 'success' | 'error' = 'success') => {
-    setToast({ message, type });
+  const showToast = useCallback((message: string, type: 'success' | 'error' = 'success', action?: ToastAction) => {
+    setToast({ message, type, action });
   }, []);
 
   if (loading) {
@@ -1758,6 +3857,7 @@ export default function App() {
         <Toast 
           message={toast.message} 
           type={toast.type}
+          action={toast.action}
           onClose={() => setToast(null)}
         />
       )}
@@ -0,0 +1,411 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Octokit } from "@octokit/rest";
+import { apiAppInternals } from "./api-app.ts";
+
+const {
+  commitRebasedTreeChanges,
+  isBranchMovedError,
+  defaultRepoConfig,
+  parseTrashEntry,
+  expiredTrashChanges,
+  purgeExpiredTrash,
+  selectTrashEntries,
+  deleteAssetEntries,
+  findImageVariantEntries,
+  planAssetMoves,
+} = apiAppInternals;
+
+type AssetSnapshot = Parameters<typeof deleteAssetEntries>[3];
+type AssetBlobEntry = AssetSnapshot["entries"][number];
+type TrashEntry = AssetSnapshot["trashEntries"][number];
+
+const selection = { owner: "octo", repo: "assets", branch: "main" };
+const DAY = 24 * 60 * 60 * 1000;
+
+type FakeTree = Map<string, string>;
+
+// Just enough of the GitHub git API for the commit loop: flat trees of path to blob SHA,
+// one branch, and the GraphQL blob lookups behind the metadata manifest.
+function createFakeGitHub(files: Record<string, string> = {}) {
+  let nextId = 0;
+  const newSha = (kind: string) => `${kind}${(nextId += 1)}`;
+  const trees = new Map<string, FakeTree>([["tree0", new Map(Object.entries(files))]]);
+  const commits = new Map<string, { tree: string; parents: string[]; message: string }>([
+    ["commit0", { tree: "tree0", parents: [], message: "Initial commit" }],
+  ]);
+  const blobs = new Map<string, Buffer>();
+
+  const github = {
+    head: "commit0",
+    // Each queued status fails one updateRef call with it.
+    updateRefFailures: [] as number[],
+    updateRefCalls: 0,
+    // Every entry passed to createTree, in order.
+    treeItems: [] as { path: string; mode: string; sha: string | null }[],
+    commits,
+    filesAt(commitSha: string): Record<string, string> {
+      return Object.fromEntries(trees.get(commits.get(commitSha)!.tree)!);
+    },
+    // Lands a commit on the branch as another client would.
+    pushCommit(changes: Record<string, string | null>) {
+      const tree = new Map(trees.get(commits.get(github.head)!.tree));
+      for (const [path, sha] of Object.entries(changes)) {
+        if (sha === null) {
+          tree.delete(path);
+        } else {
+          tree.set(path, sha);
+        }
+      }
+      const treeSha = newSha("tree");
+      trees.set(treeSha, tree);
+      const commitSha = newSha("commit");
+      commits.set(commitSha, { tree: treeSha, parents: [github.head], message: "Pushed elsewhere" });
+      github.head = commitSha;
+    },
+  };
+
+  const octokit = {
+    git: {
+      getRef: async () => ({ data: { object: { sha: github.head } } }),
+      getCommit: async ({ commit_sha }: { commit_sha: string }) => ({
+        data: { sha: commit_sha, tree: { sha: commits.get(commit_sha)!.tree } },
+      }),
+      createTree: async ({ base_tree, tree }: { base_tree: string; tree: typeof github.treeItems }) => {
+        github.treeItems.push(...tree);
+        const next = new Map(trees.get(base_tree));
+        for (const item of tree) {
+          if (item.sha === null) {
+            next.delete(item.path);
+          } else {
+            next.set(item.path, item.sha);
+          }
+        }
+        const sha = newSha("tree");
+        trees.set(sha, next);
+        return { data: { sha } };
+      },
+      createCommit: async ({ tree, parents, message }: { tree: string; parents: string[]; message: string }) => {
+        const sha = newSha("commit");
+        commits.set(sha, { tree, parents, message });
+        return { data: { sha } };
+      },
+      updateRef: async ({ sha }: { sha: string }) => {
+        github.updateRefCalls += 1;
+        const status = github.updateRefFailures.shift();
+        if (status !== undefined) {
+          throw Object.assign(new Error(`HTTP ${status}`), { status });
+        }
+        github.head = sha;
+        return { data: {} };
+      },
+      createBlob: async ({ content }: { content: string }) => {
+        const sha = newSha("blob");
+        blobs.set(sha, Buffer.from(content, "base64"));
+        return { data: { sha } };
+      },
+      getBlob: async ({ file_sha }: { file_sha: string }) => ({
+        data: { content: blobs.get(file_sha)!.toString("base64") },
+      }),
+    },
+    graphql: async (_query: string, variables: Record<string, string>) => {
+      const repository: Record<string, { oid: string; byteSize: number } | null> = {};
+      for (const [name, expression] of Object.entries(variables)) {
+        const match = name.match(/^expression(\d+)$/);
+        if (!match) {
+          continue;
+        }
+        const [commitSha, path] = expression.split(/:(.*)/s);
+        const sha = trees.get(commits.get(commitSha)!.tree)!.get(path);
+        repository[`blob${match[1]}`] = sha ? { oid: sha, byteSize: blobs.get(sha)?.length ?? 0 } : null;
+      }
+      return { repository };
+    },
+  };
+
+  return { github, octokit: octokit as unknown as Octokit, blobs };
+}
+
+function blobEntry(relativePath: string, sha = `sha-${relativePath}`): AssetBlobEntry {
+  return { repoPath: `assets/${relativePath}`, relativePath, sha, size: 10 };
+}
+
+function trashEntry(repoPath: string, sha = `sha-${repoPath}`): TrashEntry {
+  const entry = parseTrashEntry(repoPath, sha, 10);
+  assert.ok(entry, `${repoPath} should parse as trash`);
+  return entry;
+}
+
+function snapshotOf(
+  github: { head: string },
+  entries: AssetBlobEntry[],
+  trashEntries: TrashEntry[] = [],
+): AssetSnapshot {
+  return {
+    commitSha: github.head,
+    assetsTreeSha: null,
+    complete: true,
+    entries,
+    trashEntries,
+    imageInfoBlobs: new Map<string, string>(),
+  };
+}
+
+describe("commitRebasedTreeChanges", () => {
+  const config = defaultRepoConfig();
+
+  it("commits the changes on the branch head", async () => {
+    const { github, octokit } = createFakeGitHub({ "assets/a.png": "blobA" });
+
+    const commitSha = await commitRebasedTreeChanges(octokit, selection, "Add b via GitCDN", config, async () => [
+      { repoPath: "assets/b.png", sha: "blobB" },
+    ]);
+
+    assert.equal(github.head, commitSha);
+    assert.deepEqual(github.filesAt(commitSha!), { "assets/a.png": "blobA", "assets/b.png": "blobB" });
+    assert.deepEqual(github.commits.get(commitSha!)!.parents, ["commit0"]);
+  });
+
+  it("returns null without committing when there is nothing to change", async () => {
+    const { github, octokit } = createFakeGitHub();
+
+    assert.equal(await commitRebasedTreeChanges(octokit, selection, "Nothing", config, async () => []), null);
+    assert.equal(github.head, "commit0");
+    assert.equal(github.updateRefCalls, 0);
+  });
+
+  it("rebuilds the changes on the new head when the branch moves", async () => {
+    const { github, octokit } = createFakeGitHub({ "assets/a.png": "blobA" });
+    const heads: string[] = [];
+
+    const commitSha = await commitRebasedTreeChanges(octokit, selection, "Add b", config, async (headSha) => {
+      heads.push(headSha);
+      if (heads.length === 1) {
+        // Another client commits before this attempt updates the ref.
+        github.pushCommit({ "assets/c.png": "blobC" });
+        github.updateRefFailures.push(422);
+      }
+      return [{ repoPath: "assets/b.png", sha: "blobB" }];
+    });
+
+    assert.equal(heads.length, 2);
+    assert.notEqual(heads[0], heads[1]);
+    assert.deepEqual(github.commits.get(commitSha!)!.parents, [heads[1]]);
+    assert.deepEqual(github.filesAt(commitSha!), {
+      "assets/a.png": "blobA",
+      "assets/b.png": "blobB",
+      "assets/c.png": "blobC",
+    });
+  });
+
+  it("gives up with a 409 branch moved error after the last attempt", async () => {
+    const { github, octokit } = createFakeGitHub();
+    github.updateRefFailures.push(422, 422, 422);
+
+    await assert.rejects(
+      commitRebasedTreeChanges(octokit, selection, "Add b via GitCDN", config, async () => [
+        { repoPath: "assets/b.png", sha: "blobB" },
+      ]),
+      (error: any) => {
+        assert.ok(isBranchMovedError(error));
+        assert.equal(error.status, 409);
+        return true;
+      },
+    );
+    assert.equal(github.updateRefCalls, 3);
+    assert.equal(github.head, "commit0");
+  });
+
+  it("rethrows other ref update errors without retrying", async () => {
+    const { github, octokit } = createFakeGitHub();
+    github.updateRefFailures.push(500);
+
+    await assert.rejects(
+      commitRebasedTreeChanges(octokit, selection, "Add b via GitCDN", config, async () => [
+        { repoPath: "assets/b.png", sha: "blobB" },
+      ]),
+      (error: any) => {
+        assert.equal(error.status, 500);
+        assert.ok(!isBranchMovedError(error));
+        return true;
+      },
+    );
+    assert.equal(github.updateRefCalls, 1);
+  });
+
+  it("keeps the mode of each change", async () => {
+    const { github, octokit } = createFakeGitHub();
+
+    await commitRebasedTreeChanges(octokit, selection, "Revert via GitCDN", config, async () => [
+      { repoPath: "assets/run.sh", sha: "blobRun", mode: "100755" },
+      { repoPath: "assets/a.png", sha: "blobA" },
+    ]);
+
+    assert.deepEqual(
+      github.treeItems.map((item) => [item.path, item.mode]),
+      [
+        ["assets/run.sh", "100755"],
+        ["assets/a.png", "100644"],
+      ],
+    );
+  });
+});
+
+describe("trash expiry", () => {
+  const config = { ...defaultRepoConfig(), trash: { retention_days: 30 } };
+  const now = Date.UTC(2026, 0, 31);
+
+  it("parses suffixed and legacy trash batch ids", () => {
+    const suffixed = trashEntry(`assets/.trash/${now}-0a1b2c3d/photos/cat.png`);
+    assert.equal(suffixed.batchId, `${now}-0a1b2c3d`);
+    assert.equal(suffixed.deletedAt, now);
+    assert.equal(suffixed.originalPath, "photos/cat.png");
+
+    assert.equal(trashEntry(`assets/.trash/${now}/cat.png`).deletedAt, now);
+    assert.equal(parseTrashEntry(`assets/.trash/not-a-batch/cat.png`, "sha", 10), null);
+    assert.equal(parseTrashEntry(`assets/photos/cat.png`, "sha", 10), null);
+  });
+
+  it("expires only trash past its retention", () => {
+    const expired = trashEntry(`assets/.trash/${now - 30 * DAY}-aa/old.png`);
+    const kept = trashEntry(`assets/.trash/${now - 29 * DAY}-bb/new.png`);
+
+    assert.deepEqual(expiredTrashChanges(config, [expired, kept], now), [{ repoPath: expired.repoPath, sha: null }]);
+  });
+
+  it("purges expired trash in one commit", async () => {
+    const expired = trashEntry(`assets/.trash/${now - 40 * DAY}-aa/old.png`, "blobOld");
+    const kept = trashEntry(`assets/.trash/${now - DAY}-bb/new.png`, "blobNew");
+    const { github, octokit } = createFakeGitHub({ [expired.repoPath]: "blobOld", [kept.repoPath]: "blobNew" });
+
+    const commitSha = await purgeExpiredTrash(octokit, selection, config, snapshotOf(github, [], [expired, kept]), now);
+
+    assert.deepEqual(github.filesAt(commitSha!), { [kept.repoPath]: "blobNew" });
+  });
+
+  it("commits nothing when no trash expired", async () => {
+    const kept = trashEntry(`assets/.trash/${now - DAY}-bb/new.png`);
+    const { github, octokit } = createFakeGitHub({ [kept.repoPath]: kept.sha });
+
+    assert.equal(await purgeExpiredTrash(octokit, selection, config, snapshotOf(github, [], [kept]), now), null);
+    assert.equal(github.head, "commit0");
+  });
+});
+
+describe("image variants", () => {
+  const hero = blobEntry("img/hero.png", "blobHero");
+  const hero480 = blobEntry("img/hero@480w.webp", "blob480");
+  const hero960 = blobEntry("img/hero@960w.webp", "blob960");
+
+  it("finds the variants of an original", () => {
+    const found = findImageVariantEntries([hero, hero480, hero960], [hero]);
+    assert.deepEqual(
+      found.map(({ width, entry }) => [width, entry.relativePath]),
+      [
+        [480, "img/hero@480w.webp"],
+        [960, "img/hero@960w.webp"],
+      ],
+    );
+  });
+
+  it("leaves variants another file could claim", () => {
+    const heroJpg = blobEntry("img/hero.jpg");
+    assert.deepEqual(findImageVariantEntries([hero, heroJpg, hero480], [hero]), []);
+  });
+
+  it("moves a file with its variants renamed after the new name", () => {
+    const moves = planAssetMoves([hero, hero480, hero960], "img/hero.png", false, "banners", "top.png");
+    assert.deepEqual(
+      moves.map((move) => [move.entry.relativePath, move.targetRelativePath]),
+      [
+        ["img/hero.png", "banners/top.png"],
+        ["img/hero@480w.webp", "banners/top@480w.webp"],
+        ["img/hero@960w.webp", "banners/top@960w.webp"],
+      ],
+    );
+  });
+
+  it("keeps variant names when only the extension changes", () => {
+    const moves = planAssetMoves([hero, hero480], "img/hero.png", false, "img", "hero.webp");
+    assert.deepEqual(
+      moves.map((move) => [move.entry.relativePath, move.targetRelativePath]),
+      [["img/hero.png", "img/hero.webp"]],
+    );
+  });
+
+  it("moves a folder's variants along with the folder", () => {
+    const moves = planAssetMoves([hero, hero480, blobEntry("other.png")], "img", true, "", "pictures");
+    assert.deepEqual(
+      moves.map((move) => [move.entry.relativePath, move.targetRelativePath]),
+      [
+        ["img/hero.png", "pictures/hero.png"],
+        ["img/hero@480w.webp", "pictures/hero@480w.webp"],
+      ],
+    );
+  });
+
+  it("trashes variants in the same commit as their original", async () => {
+    const config = defaultRepoConfig();
+    const { github, octokit } = createFakeGitHub({
+      [hero.repoPath]: hero.sha,
+      [hero480.repoPath]: hero480.sha,
+      [hero960.repoPath]: hero960.sha,
+    });
+
+    const { commitSha, trashId } = await deleteAssetEntries(
+      octokit,
+      selection,
+      config,
+      snapshotOf(github, [hero, hero480, hero960]),
+      [hero],
+      false,
+      "Delete img/hero.png via GitCDN",
+    );
+
+    assert.match(trashId!, /^\d+-[a-f0-9]{8}$/);
+    assert.deepEqual(github.commits.get(commitSha)!.parents, ["commit0"]);
+    assert.deepEqual(github.filesAt(commitSha), {
+      [`assets/.trash/${trashId}/img/hero.png`]: hero.sha,
+      [`assets/.trash/${trashId}/img/hero@480w.webp`]: hero480.sha,
+      [`assets/.trash/${trashId}/img/hero@960w.webp`]: hero960.sha,
+    });
+  });
+
+  it("deletes variants permanently with their original", async () => {
+    const config = defaultRepoConfig();
+    const other = blobEntry("other.png");
+    const { github, octokit } = createFakeGitHub({
+      [hero.repoPath]: hero.sha,
+      [hero480.repoPath]: hero480.sha,
+      [other.repoPath]: other.sha,
+    });
+
+    const { commitSha, trashId } = await deleteAssetEntries(
+      octokit,
+      selection,
+      config,
+      snapshotOf(github, [hero, hero480, other]),
+      [hero],
+      true,
+      "Delete img/hero.png via GitCDN",
+    );
+
+    assert.equal(trashId, null);
+    assert.deepEqual(github.filesAt(commitSha), { [other.repoPath]: other.sha });
+  });
+
+  it("restores variants trashed with a selected file", () => {
+    const batch = `${Date.UTC(2026, 0, 1)}-0a1b2c3d`;
+    const trashed = [
+      trashEntry(`assets/.trash/${batch}/img/hero.png`),
+      trashEntry(`assets/.trash/${batch}/img/hero@480w.webp`),
+      trashEntry(`assets/.trash/${batch}/img/logo.png`),
+      trashEntry(`assets/.trash/${Date.UTC(2026, 0, 2)}-ff/img/hero@480w.webp`),
+    ];
+
+    assert.deepEqual(
+      selectTrashEntries(trashed, [`${batch}/img/hero.png`]).map((entry) => entry.repoPath),
+      [`assets/.trash/${batch}/img/hero.png`, `assets/.trash/${batch}/img/hero@480w.webp`],
+    );
+  });
+});
@@ -1,8 +1,13 @@
 import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
 import express, { type Request, type Response } from "express";
 import axios from "axios";
 import { Octokit } from "@octokit/rest";
 import multer from "multer";
+import sharp from "sharp";
 
 const NODE_ENV = process.env.NODE_ENV ?? "development";
 const IS_PRODUCTION = NODE_ENV === "production";
@@ -22,10 +27,95 @@ const HAS_CRYPTO_CONFIG = Boolean(SESSION_SECRET || TOKEN_ENCRYPTION_KEY);
 const SESSION_COOKIE_NAME = "gitcdn_session";
 const OAUTH_STATE_COOKIE_NAME = "gitcdn_oauth_state";
 const ASSETS_ROOT_PATH = "assets";
+const GITCDN_META_FOLDER = ".gitcdn";
+const TRASH_FOLDER = ".trash";
+const RESERVED_ASSET_FOLDERS = new Set([GITCDN_META_FOLDER, TRASH_FOLDER]);
+const REPO_CONFIG_PATH = `${ASSETS_ROOT_PATH}/${GITCDN_META_FOLDER}/config.json`;
+const METADATA_MANIFEST_PATH = `${ASSETS_ROOT_PATH}/${GITCDN_META_FOLDER}/metadata.json`;
+const IMAGE_INFO_FOLDER = `${ASSETS_ROOT_PATH}/${GITCDN_META_FOLDER}/images`;
+const METADATA_TEXT_MAX_LENGTH = 1000;
+const METADATA_MAX_TAGS = 30;
+const METADATA_TAG_MAX_LENGTH = 50;
+const METADATA_BULK_MAX_PATHS = 500;
+const METADATA_INVALID_ERROR = `alt and description must be text up to ${METADATA_TEXT_MAX_LENGTH} characters, and tags at most ${METADATA_MAX_TAGS} tags of up to ${METADATA_TAG_MAX_LENGTH} characters.`;
+const ASSET_MANIFEST_NAME = "manifest.json";
+const ASSET_MANIFEST_PATH = `${ASSETS_ROOT_PATH}/${ASSET_MANIFEST_NAME}`;
+const BLOB_DETAILS_BATCH_SIZE = 20;
+const GITATTRIBUTES_PATH = ".gitattributes";
+const GITATTRIBUTES_LFS_BLOCK_START = "# gitcdn-lfs-start";
+const GITATTRIBUTES_LFS_BLOCK_END = "# gitcdn-lfs-end";
+const LFS_POINTER_MIN_BYTES = 100;
+const LFS_POINTER_MAX_BYTES = 200;
 const API_APP_DEFAULT_MAX_BYTES = 4 * 1024 * 1024;
 const API_APP_ABSOLUTE_MAX_BYTES = 15 * 1024 * 1024;
 const API_APP_DEFAULT_TTL_DAYS = 90;
 const API_APP_MAX_TTL_DAYS = 365;
+const BATCH_UPLOAD_MAX_FILES = 50;
+const BATCH_UPLOAD_MAX_BYTES = 100 * 1024 * 1024;
+const IMAGE_VARIANT_MAX_WIDTHS = 8;
+const IMAGE_VARIANT_MIN_WIDTH = 16;
+const IMAGE_VARIANT_MAX_WIDTH = 8192;
+const IMAGE_VARIANT_QUALITY = 80;
+const IMAGE_VARIANT_SOURCE_FORMATS = new Set(["jpeg", "png", "webp", "avif", "heif", "gif", "tiff"]);
+const IMAGE_VARIANT_NAME_PATTERN = /^(.+)@(\d+)w\.webp$/;
+const IMAGE_INFO_FORMATS = new Set(["jpeg", "png", "webp", "avif", "heif", "gif", "tiff", "svg"]);
+const IMAGE_INFO_SAMPLE_SIZE = 64;
+const IMAGE_PLACEHOLDER_SIZE = 16;
+const IMAGE_PLACEHOLDER_MAX_LENGTH = 2000;
+const IMAGE_OPTIMIZATION_DEFAULT_QUALITY = 80;
+const IMAGE_OPTIMIZATION_MAX_FOLDERS = 50;
+const IMAGE_OPTIMIZATION_SOURCE_FORMATS = new Set(["jpeg", "png", "webp", "avif", "tiff"]);
+const IMAGE_OUTPUT_FORMATS: ImageOutputFormat[] = ["original", "webp", "avif"];
+// APP1 (EXIF, XMP), APP13 (IPTC) and comments. APP2 keeps the ICC color profile.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+const IMAGE_VARIANT_WIDTHS_ERROR = `widths must list at most ${IMAGE_VARIANT_MAX_WIDTHS} integers between ${IMAGE_VARIANT_MIN_WIDTH} and ${IMAGE_VARIANT_MAX_WIDTH}.`;
+const ASSET_HISTORY_MAX_VERSIONS = 30;
+const TRASH_DEFAULT_RETENTION_DAYS = 30;
+const TRASH_MAX_RETENTION_DAYS = 365;
+const SAVED_VIEWS_MAX = 50;
+const SAVED_VIEW_NAME_MAX_LENGTH = 60;
+const COMMIT_MAX_ATTEMPTS = 3;
+const COMMIT_FILES_PAGE_SIZE = 300;
+const COMMIT_FILES_MAX = 3000;
+const TREE_LOOKUP_BATCH_SIZE = 50;
+const FILE_MODES: FileMode[] = ["100644", "100755", "120000"];
+const BRANCH_MOVED_ERROR = "The branch kept changing during the commit, so nothing was committed. Please retry.";
+const TREE_WALK_MAX_REQUESTS = 200;
+const GITCDN_COMMIT_TRAILER = "GitCDN-Operation: true";
+const CHUNKED_UPLOAD_PART_BYTES = 4 * 1024 * 1024;
+const CHUNKED_UPLOAD_SOFT_LIMIT_BYTES = 50 * 1024 * 1024;
+const CHUNKED_UPLOAD_MAX_BYTES = 100 * 1024 * 1024;
+const CHUNKED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+// Serverless instances do not share a temp directory, so staging there is off unless configured.
+const UPLOAD_STAGING_MODE = process.env.UPLOAD_STAGING?.trim().toLowerCase() || (process.env.VERCEL ? "off" : "file");
+const UPLOAD_STAGING_DIR = process.env.UPLOAD_STAGING_DIR?.trim() || path.join(os.tmpdir(), "gitcdn-uploads");
+const UPLOAD_STAGING_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const INVENTORY_CACHE_MODE = process.env.INVENTORY_CACHE?.trim().toLowerCase() || "memory";
+const INVENTORY_CACHE_DIR = process.env.INVENTORY_CACHE_DIR?.trim() || path.join(os.tmpdir(), "gitcdn-inventory");
+const INVENTORY_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+const INVENTORY_CACHE_FILE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const INVENTORY_CACHE_FILE_MAX_ENTRIES = 5000;
+const INVENTORY_CACHE_PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const OVERWRITE_POLICIES: OverwritePolicy[] = ["fail", "rename", "replace"];
+const NAMING_STRATEGIES: NamingStrategy[] = ["original", "hash", "timestamp"];
+const CDN_PROVIDERS: CdnProvider[] = ["jsdelivr", "statically", "githack", "github-pages", "custom"];
+const CDN_TEMPLATE_PLACEHOLDER_PATTERN = /\{(owner|repo|ref|path|asset_path)\}/g;
+const ORIGINAL_NAME_MAX_LENGTH = 80;
+const ASSET_PAGE_DEFAULT_LIMIT = 100;
+const ASSET_PAGE_MAX_LIMIT = 500;
+const ASSET_SORT_FIELDS: AssetSortField[] = ["name", "size", "modified"];
+const LAST_COMMIT_QUERY_BATCH_SIZE = 50;
+const MODIFIED_SORT_MAX_FILES = 1000;
+const ASSET_CATEGORY_EXTENSIONS: Record<Exclude<AssetCategory, "other">, string[]> = {
+  image: ["jpg", "jpeg", "png", "gif", "webp", "avif", "svg", "bmp", "ico", "tif", "tiff"],
+  video: ["mp4", "webm", "mov", "m4v", "ogv", "avi", "mkv"],
+  audio: ["mp3", "wav", "ogg", "oga", "m4a", "flac", "aac", "opus"],
+  document: ["pdf", "txt", "md", "json", "csv", "xml", "doc", "docx", "xls", "xlsx", "ppt", "pptx"],
+  font: ["woff", "woff2", "ttf", "otf", "eot"],
+  archive: ["zip", "gz", "tgz", "tar", "rar", "7z"],
+};
 
 if (!HAS_CRYPTO_CONFIG) {
   const level = IS_PRODUCTION ? "ERROR" : "WARN";
@@ -67,14 +157,123 @@ type AssetBlobEntry = {
   relativePath: string;
   sha: string;
   size: number;
+  lfs?: boolean;
+};
+
+// A file moved to assets/.trash/<deleted_at>/<original path>.
+type TrashEntry = {
+  id: string;
+  batchId: string;
+  repoPath: string;
+  originalPath: string;
+  deletedAt: number;
+  sha: string;
+  size: number;
+};
+
+// `complete` is false when the tree was too large to list every file.
+type AssetSnapshot = {
+  commitSha: string;
+  assetsTreeSha: string | null;
+  complete: boolean;
+  entries: AssetBlobEntry[];
+  trashEntries: TrashEntry[];
+  // Maps asset blob SHAs to the blob SHA of their image info file.
+  imageInfoBlobs: Map<string, string>;
+};
+
+type AssetLastCommit = {
+  sha: string;
+  date: string;
+  message: string;
+  committer: { name: string | null; login: string | null; avatar_url: string | null };
+};
+
+type LastCommitHistoryNode = {
+  oid: string;
+  committedDate: string;
+  messageHeadline: string;
+  committer: { name: string | null; user: { login: string; avatarUrl: string } | null } | null;
+};
+
+type TreeBlob = {
+  path: string;
+  sha: string;
+  size: number;
+};
+
+// Subresource Integrity values, e.g. "sha384-<base64 digest>".
+type SriHashes = {
+  sha256: string | null;
+  sha384: string | null;
+};
+
+// What a manifest needs from a blob's content. Keyed by blob SHA, so it never changes.
+type AssetBlobDetails = {
+  size: number;
+  lfs: boolean;
+  integrity: SriHashes;
+  width: number | null;
+  height: number | null;
+};
+
+type AssetManifestEntry = {
+  path: string;
+  size: number;
+  sha: string;
+  storage: "git" | "lfs";
+  integrity: string | null;
+  cdn_url: string;
+  pinned_cdn_url?: string;
+  width: number | null;
+  height: number | null;
+};
+
+type BranchHead = {
+  commitSha: string;
+  treeSha: string;
+  assetsTreeSha: string | null;
+};
+
+// Backing store for branch heads and asset tree listings. Values must be JSON-serializable.
+export type InventoryCacheStore = {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
 };
 
+// Backing store for chunked uploads: each upload's state and parts until it is committed,
+// aborted or expired. Every request of an upload must reach the same store, so on hosts
+// that spread requests over instances it has to be shared by all of them.
+export type UploadStagingStore = {
+  get(key: string): Promise<Buffer | null>;
+  has(key: string): Promise<boolean>;
+  // The entry may be dropped once `expiresAt` (milliseconds since the epoch) has passed.
+  set(key: string, value: Buffer, expiresAt: number): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+// Edits the metadata manifest in place and returns whether anything changed. Commits
+// apply it to the manifest at the head they build on, so every retry starts from the
+// latest copy instead of overwriting edits made in between.
+type MetadataEdit = (manifest: AssetMetadataManifest) => boolean;
+
+type AssetTreeChange = {
+  repoPath: string;
+  sha: string | null;
+  // Regular files are written as 100644 unless another mode is given.
+  mode?: FileMode;
+};
+
+type FileMode = "100644" | "100755" | "120000";
+
 type AssetFile = {
   name: string;
   path: string;
   folder: string;
   sha: string;
   size: number;
+  storage: "git" | "lfs";
   download_url: string;
 };
 
@@ -84,6 +283,122 @@ type AssetFolder = {
   parent: string | null;
 };
 
+type AssetMetadata = {
+  alt: string | null;
+  description: string | null;
+  tags: string[];
+};
+
+type AssetImageInfo = {
+  width: number;
+  height: number;
+  // A tiny WebP data URL to show, scaled up and blurred, while the image loads.
+  placeholder: string;
+  dominant_color: string;
+};
+
+// Contents of assets/.gitcdn/metadata.json, keyed by path under assets/. Trashed files
+// keep their metadata under their .trash/ path so a restore brings it back.
+type AssetMetadataManifest = Record<string, AssetMetadata>;
+
+type GitCdnRepoConfig = {
+  cdn: CdnSettings;
+  trash: {
+    retention_days: number;
+  };
+  lfs: {
+    enabled: boolean;
+    folders: string[];
+  };
+  naming: {
+    strategy: NamingStrategy;
+  };
+  views: SavedAssetView[];
+  manifest: {
+    // Keep assets/manifest.json updated in every GitCDN commit.
+    enabled: boolean;
+  };
+  optimization: ImageOptimizationSettings & {
+    // Overrides for uploads into a folder or its subfolders. Each stores only the
+    // fields it sets, and deeper folders win field by field.
+    folders: Record<string, Partial<ImageOptimizationSettings>>;
+  };
+};
+
+type ImageOutputFormat = "original" | "webp" | "avif";
+
+type ImageOptimizationSettings = {
+  enabled: boolean;
+  quality: number;
+  format: ImageOutputFormat;
+  // Commit the untouched upload as <name>.original.<ext> next to the optimized file.
+  keep_original: boolean;
+};
+
+// A named set of listing filters shared by everyone using the repository.
+type SavedAssetView = {
+  name: string;
+  folder: string;
+  recursive: boolean;
+  tags: string[];
+  type: AssetCategory | null;
+  q: string | null;
+  sort: AssetSortField;
+  order: "asc" | "desc";
+};
+
+type DuplicateAsset = {
+  relativePath: string;
+  repoPath: string;
+  lfs: boolean;
+};
+
+type LfsPointer = {
+  oid: string;
+  size: number;
+};
+
+type OverwritePolicy = "fail" | "rename" | "replace";
+
+type NamingStrategy = "original" | "hash" | "timestamp";
+
+type AssetSortField = "name" | "size" | "modified";
+
+type AssetCategory = "image" | "video" | "audio" | "document" | "font" | "archive" | "other";
+
+// Query parameters of GET /api/assets. `cursor` is the sort key of the last file on
+// the previous page, so pages stay stable when files are added before it.
+type AssetListQuery = {
+  cursor: AssetSortKey | null;
+  limit: number;
+  sort: AssetSortField;
+  order: "asc" | "desc";
+  extensions: string[] | null;
+  category: AssetCategory | null;
+  minSize: number | null;
+  maxSize: number | null;
+  search: string | null;
+  tags: string[] | null;
+  recursive: boolean;
+};
+
+type AssetSortKey = [string | number, string];
+
+type CdnProvider = "jsdelivr" | "statically" | "githack" | "github-pages" | "custom";
+
+type CdnSettings = {
+  provider: CdnProvider;
+  // URL template for the custom provider, e.g. https://cdn.example.com/{path}
+  template: string | null;
+};
+
+type UploadTarget = {
+  name: string;
+  relativePath: string;
+  repoPath: string;
+  previous: { sha: string; size: number } | null;
+};
+
 type IngestAppTokenPayload = {
   version: 1;
   app_id: string;
@@ -95,10 +410,62 @@ type IngestAppTokenPayload = {
   base_folder: string;
   allowed_extensions: string[];
   max_bytes: number;
+  overwrite_policy?: OverwritePolicy;
+  variant_widths?: number[];
+  // Replaces the repository and folder optimization settings for this app's uploads.
+  optimization?: ImageOptimizationSettings;
+  // Only `false` keeps image metadata; tokens issued without it strip it too.
+  strip_metadata?: boolean;
   issued_at: number;
   expires_at: number;
 };
 
+type ChunkedUploadState = {
+  upload_id: string;
+  username: string;
+  owner: string;
+  repo: string;
+  branch: string;
+  folder: string;
+  original_name: string | null;
+  mime_type: string | null;
+  size: number;
+  part_size: number;
+  part_count: number;
+  message: string | null;
+  widths: number[];
+  created_at: number;
+  expires_at: number;
+};
+
+type OptimizedImage = {
+  content: Buffer;
+  format: string;
+  quality: number;
+  originalSize: number;
+  // The output format differs from the upload's, so the file extension changes.
+  converted: boolean;
+};
+
+type StoredUploadFile = {
+  name: string;
+  relativePath: string;
+  repoPath: string;
+  sha: string;
+  lfs: boolean;
+};
+
+type StoredImageVariant = {
+  width: number;
+  height: number;
+  name: string;
+  relativePath: string;
+  repoPath: string;
+  sha: string;
+  size: number;
+  lfs: boolean;
+};
+
 function parseIngestAppId(value: unknown): string | null {
   if (typeof value !== "string") {
     return null;
@@ -162,6 +529,30 @@ function parseApiAppMaxBytes(value: unknown): number | null {
   return parsed;
 }
 
+// Accepts an array or a comma-separated list, so multipart and query forms work too.
+// Returns the widths sorted and without repeats, or null when any entry is invalid.
+function parseImageVariantWidths(value: unknown): number[] | null {
+  if (value == null || value === "") {
+    return [];
+  }
+
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.length > IMAGE_VARIANT_MAX_WIDTHS) {
+    return null;
+  }
+
+  const widths = new Set<number>();
+  for (const item of items) {
+    const width = parsePositiveInteger(item);
+    if (!width || width < IMAGE_VARIANT_MIN_WIDTH || width > IMAGE_VARIANT_MAX_WIDTH) {
+      return null;
+    }
+    widths.add(width);
+  }
+
+  return Array.from(widths).sort((a, b) => a - b);
+}
+
 function parseApiAppTtlDays(value: unknown): number | null {
   if (value == null || value === "") {
     return API_APP_DEFAULT_TTL_DAYS;
@@ -209,6 +600,18 @@ function parseAllowedExtensions(value: unknown): string[] | null {
   return Array.from(extensions);
 }
 
+function parseOverwritePolicy(value: unknown, fallback: OverwritePolicy): OverwritePolicy | null {
+  if (value == null || value === "") {
+    return fallback;
+  }
+
+  return OVERWRITE_POLICIES.find((policy) => policy === value) ?? null;
+}
+
+function parseBooleanFlag(value: unknown): boolean {
+  return value === true || value === "true" || value === "1";
+}
+
 function parseBearerToken(req: Request): string | null {
   const authHeader = firstHeaderValue(req.headers.authorization);
   if (!authHeader) {
@@ -296,6 +699,13 @@ function isIngestAppTokenPayload(payload: unknown): payload is IngestAppTokenPay
     Number.isFinite(data.max_bytes) &&
     data.max_bytes > 0 &&
     data.max_bytes <= API_APP_ABSOLUTE_MAX_BYTES &&
+    (data.overwrite_policy === undefined || OVERWRITE_POLICIES.includes(data.overwrite_policy)) &&
+    (data.variant_widths === undefined ||
+      (Array.isArray(data.variant_widths) &&
+        parseImageVariantWidths(data.variant_widths)?.length === data.variant_widths.length)) &&
+    (data.optimization === undefined ||
+      parseImageOptimizationSettings(data.optimization, defaultImageOptimization()) !== null) &&
+    (data.strip_metadata === undefined || typeof data.strip_metadata === "boolean") &&
     typeof data.issued_at === "number" &&
     Number.isFinite(data.issued_at) &&
     typeof data.expires_at === "number" &&
@@ -473,6 +883,15 @@ function parseRepoFullName(value: unknown): { owner: string; repo: string } | nu
   return { owner, repo };
 }
 
+function parseCommitSha(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim().toLowerCase();
+  return /^[0-9a-f]{7,40}$/.test(trimmed) ? trimmed : null;
+}
+
 function parseBranchName(value: unknown): string | null {
   if (typeof value !== "string") {
     return null;
@@ -519,6 +938,22 @@ function sanitizePathSegment(value: string): string | null {
   return value;
 }
 
+// Image variants are named <name>@<width>w.webp. Uploaded and moved names cannot contain
+// "@", so the suffix is only accepted on the file name of a stored path.
+function sanitizeAssetFileName(value: string): string | null {
+  const variant = value.match(IMAGE_VARIANT_NAME_PATTERN);
+  if (!variant) {
+    return sanitizePathSegment(value);
+  }
+
+  return sanitizePathSegment(variant[1]) ? value : null;
+}
+
+function sanitizeMoveTargetName(value: unknown): string | null {
+  const name = sanitizeAssetName(value);
+  return name ? sanitizePathSegment(name) : null;
+}
+
 function normalizeFolderPath(value: unknown): string | null {
   if (value == null) {
     return "";
@@ -556,8 +991,9 @@ function normalizeFolderPath(value: unknown): string | null {
   }
 
   const validatedSegments: string[] = [];
-  for (const segment of segments) {
-    const safeSegment = sanitizePathSegment(segment);
+  for (const [index, segment] of segments.entries()) {
+    const safeSegment =
+      index === segments.length - 1 ? sanitizeAssetFileName(segment) : sanitizePathSegment(segment);
     if (!safeSegment) {
       return null;
     }
@@ -565,6 +1001,10 @@ function normalizeFolderPath(value: unknown): string | null {
     validatedSegments.push(safeSegment);
   }
 
+  if (RESERVED_ASSET_FOLDERS.has(validatedSegments[0])) {
+    return null;
+  }
+
   return validatedSegments.join("/");
 }
 
@@ -600,8 +1040,9 @@ function normalizeAssetRelativePath(value: unknown): string | null {
   }
 
   const validatedSegments: string[] = [];
-  for (const segment of segments) {
-    const safeSegment = sanitizePathSegment(segment);
+  for (const [index, segment] of segments.entries()) {
+    const safeSegment =
+      index === segments.length - 1 ? sanitizeAssetFileName(segment) : sanitizePathSegment(segment);
     if (!safeSegment) {
       return null;
     }
@@ -609,6 +1050,10 @@ function normalizeAssetRelativePath(value: unknown): string | null {
     validatedSegments.push(safeSegment);
   }
 
+  if (RESERVED_ASSET_FOLDERS.has(validatedSegments[0])) {
+    return null;
+  }
+
   return validatedSegments.join("/");
 }
 
@@ -634,11 +1079,21 @@ function joinAssetRepoPath(relativePath: string): string {
   return relativePath ? `${ASSETS_ROOT_PATH}/${relativePath}` : ASSETS_ROOT_PATH;
 }
 
+// Encodes each segment of a repository path for use in a URL, keeping the slashes.
+function encodeRepoPath(filePath: string): string {
+  return filePath.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+}
+
 function toRawGitHubUrl(selection: RepoSelection, filePath: string): string {
-  const encodedPath = filePath.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+  const encodedPath = encodeRepoPath(filePath);
   return `https://raw.githubusercontent.com/${selection.owner}/${selection.repo}/${selection.branch}/${encodedPath}`;
 }
 
+function toLfsMediaUrl(selection: RepoSelection, filePath: string): string {
+  const encodedPath = encodeRepoPath(filePath);
+  return `https://media.githubusercontent.com/media/${selection.owner}/${selection.repo}/${selection.branch}/${encodedPath}`;
+}
+
 function addFolderWithAncestors(target: Set<string>, folderPath: string) {
   if (!folderPath) {
     return;
@@ -729,6 +1184,69 @@ function generateAnonymousAssetName(
   return extension ? `${baseName}.${extension}` : baseName;
 }
 
+function slugifyAssetBaseName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, ORIGINAL_NAME_MAX_LENGTH)
+    .replace(/-+$/, "");
+}
+
+function computeGitBlobSha(content: Buffer): string {
+  return crypto
+    .createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+function generateAssetName(
+  strategy: NamingStrategy,
+  originalName: string | null,
+  content: Buffer,
+  encodedContent: unknown,
+  mimeType: string | null = null,
+): string {
+  const extension = inferAssetExtension(originalName, mimeType, encodedContent);
+  const withExtension = (baseName: string) => (extension ? `${baseName}.${extension}` : baseName);
+
+  if (strategy === "hash") {
+    return withExtension(crypto.createHash("sha256").update(content).digest("hex").slice(0, 20));
+  }
+
+  if (strategy === "original" && originalName) {
+    const lastDotIndex = originalName.lastIndexOf(".");
+    const slug = slugifyAssetBaseName(lastDotIndex > 0 ? originalName.slice(0, lastDotIndex) : originalName);
+    if (slug) {
+      return withExtension(slug);
+    }
+  }
+
+  return generateAnonymousAssetName(originalName, encodedContent, mimeType);
+}
+
+// How a generated name handles an existing file: slugged names get a suffix and
+// hash names can only collide with identical content, so rewriting is a no-op.
+function namingCollisionPolicy(strategy: NamingStrategy): OverwritePolicy {
+  if (strategy === "original") {
+    return "rename";
+  }
+
+  return strategy === "hash" ? "replace" : "fail";
+}
+
+function appendNameSuffix(name: string, suffix: number): string {
+  const lastDotIndex = name.lastIndexOf(".");
+  if (lastDotIndex <= 0) {
+    return `${name}-${suffix}`;
+  }
+
+  return `${name.slice(0, lastDotIndex)}-${suffix}${name.slice(lastDotIndex)}`;
+}
+
 function extractBase64Payload(value: unknown): string | null {
   if (typeof value !== "string") {
     return null;
@@ -742,6 +1260,12 @@ function extractBase64Payload(value: unknown): string | null {
   return value.slice(commaIndex + 1);
 }
 
+function defaultReleaseTagName(date: Date): string {
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `v${date.getUTCFullYear()}.${month}.${day}`;
+}
+
 function getRepoSelection(session: UserSession): RepoSelection | null {
   if (!session.selected_repo) {
     return null;
@@ -756,297 +1280,5296 @@ function getRepoSelection(session: UserSession): RepoSelection | null {
   return { ...parsed, branch };
 }
 
-function toCdnUrl(selection: RepoSelection, filePath: string): string {
-  return `https://cdn.jsdelivr.net/gh/${selection.owner}/${selection.repo}@${selection.branch}/${filePath}`;
-}
-
-async function getAssetBlobEntries(
-  octokit: Octokit,
+// Builds the public URL of a repository file through the configured provider. `ref`
+// is the selected branch unless the URL is pinned to a commit SHA or tag.
+function toCdnUrl(
   selection: RepoSelection,
-): Promise<AssetBlobEntry[]> {
-  const { data: branchData } = await octokit.repos.getBranch({
-    owner: selection.owner,
-    repo: selection.repo,
-    branch: selection.branch,
-  });
+  cdn: CdnSettings,
+  filePath: string,
+  ref: string = selection.branch,
+): string {
+  const { owner, repo } = selection;
+  const encodedPath = encodeRepoPath(filePath);
+
+  switch (cdn.provider) {
+    case "statically":
+      return `https://cdn.statically.io/gh/${owner}/${repo}/${ref}/${encodedPath}`;
+    case "githack":
+      // raw.githack re-fetches branches; rawcdn.githack caches immutable refs permanently.
+      return ref === selection.branch
+        ? `https://raw.githack.com/${owner}/${repo}/${ref}/${encodedPath}`
+        : `https://rawcdn.githack.com/${owner}/${repo}/${ref}/${encodedPath}`;
+    case "github-pages": {
+      const host = `${owner.toLowerCase()}.github.io`;
+      const siteRoot = repo.toLowerCase() === host ? `https://${host}` : `https://${host}/${repo}`;
+      return `${siteRoot}/${encodedPath}`;
+    }
+    case "custom": {
+      if (cdn.template) {
+        const values: Record<string, string> = {
+          owner,
+          repo,
+          ref,
+          path: encodedPath,
+          asset_path: encodeRepoPath(
+            filePath.startsWith(`${ASSETS_ROOT_PATH}/`) ? filePath.slice(ASSETS_ROOT_PATH.length + 1) : filePath,
+          ),
+        };
+        return cdn.template.replace(CDN_TEMPLATE_PLACEHOLDER_PATTERN, (_match, key: string) => values[key]);
+      }
+      break;
+    }
+  }
 
-  const treeSha = branchData.commit.commit.tree.sha;
-  const { data: treeData } = await octokit.git.getTree({
-    owner: selection.owner,
-    repo: selection.repo,
-    tree_sha: treeSha,
-    recursive: "1",
-  });
+  return `https://cdn.jsdelivr.net/gh/${owner}/${repo}@${ref}/${encodedPath}`;
+}
 
-  const entries: AssetBlobEntry[] = [];
+// GitHub Pages and templates without {ref} always serve the published branch, so
+// pinned URLs for them fall back to jsDelivr.
+function pinnableCdnSettings(cdn: CdnSettings): CdnSettings {
+  const servesAnyRef =
+    cdn.provider !== "github-pages" && (cdn.provider !== "custom" || Boolean(cdn.template?.includes("{ref}")));
+  return servesAnyRef ? cdn : { provider: "jsdelivr", template: null };
+}
 
-  for (const treeNode of treeData.tree) {
-    if (treeNode.type !== "blob") {
-      continue;
+// Bounded by the JSON size of its values, since a tree listing can outweigh thousands of
+// per-blob entries.
+function createMemoryInventoryCache(maxBytes: number): InventoryCacheStore {
+  const entries = new Map<string, { value: unknown; bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry) {
+      totalBytes -= entry.bytes;
+      entries.delete(key);
     }
+  };
 
-    if (!treeNode.path || !treeNode.sha) {
-      continue;
-    }
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
 
-    if (!treeNode.path.startsWith(`${ASSETS_ROOT_PATH}/`)) {
-      continue;
-    }
+      // Re-inserting keeps the map ordered from least to most recently used.
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+    async set(key, value) {
+      remove(key);
+      const bytes = key.length + JSON.stringify(value).length;
+      if (bytes > maxBytes) {
+        return;
+      }
 
-    const relativePath = normalizeAssetRelativePath(treeNode.path);
-    if (!relativePath) {
+      entries.set(key, { value, bytes });
+      totalBytes += bytes;
+      while (totalBytes > maxBytes) {
+        remove(entries.keys().next().value as string);
+      }
+    },
+    async delete(key) {
+      remove(key);
+    },
+  };
+}
+
+// Drops entries unused for longer than the TTL, then the least recently used ones past
+// the entry cap. Reads touch an entry's mtime, so mtime tracks its last use.
+async function pruneFileInventoryCache(root: string) {
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch {
+    return;
+  }
+
+  const staleBefore = Date.now() - INVENTORY_CACHE_FILE_TTL_MS;
+  const kept: { filePath: string; usedAt: number }[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) {
       continue;
     }
 
-    entries.push({
-      repoPath: joinAssetRepoPath(relativePath),
-      relativePath,
-      sha: treeNode.sha,
-      size: treeNode.size ?? 0,
-    });
+    const filePath = path.join(root, name);
+    try {
+      const usedAt = (await fs.stat(filePath)).mtimeMs;
+      if (usedAt < staleBefore) {
+        await fs.rm(filePath, { force: true });
+      } else {
+        kept.push({ filePath, usedAt });
+      }
+    } catch {
+      // Removed by another process in the meantime.
+    }
   }
 
-  return entries;
+  kept.sort((left, right) => left.usedAt - right.usedAt);
+  for (const entry of kept.slice(0, Math.max(0, kept.length - INVENTORY_CACHE_FILE_MAX_ENTRIES))) {
+    await fs.rm(entry.filePath, { force: true });
+  }
 }
 
-function buildAssetInventory(selection: RepoSelection, blobEntries: AssetBlobEntry[]) {
-  const files: AssetFile[] = [];
-  const folderSet = new Set<string>();
+// Survives restarts and is shared by every process that sees the same directory.
+function createFileInventoryCache(root: string): InventoryCacheStore {
+  const entryPath = (key: string) =>
+    path.join(root, `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+  let prunedAt = 0;
 
-  for (const entry of blobEntries) {
-    const fileName = fileNameFromPath(entry.relativePath);
-    const folderPath = parentFolderPath(entry.relativePath);
-    addFolderWithAncestors(folderSet, folderPath);
+  return {
+    async get<T>(key: string) {
+      const filePath = entryPath(key);
+      try {
+        const value = JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+        const now = new Date();
+        await fs.utimes(filePath, now, now).catch(() => undefined);
+        return value;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value) {
+      try {
+        await fs.mkdir(root, { recursive: true });
+        await fs.writeFile(entryPath(key), JSON.stringify(value));
+      } catch (error) {
+        console.error("Inventory cache write error:", error);
+      }
 
-    if (fileName === ".gitkeep") {
-      continue;
-    }
+      if (Date.now() - prunedAt >= INVENTORY_CACHE_PRUNE_INTERVAL_MS) {
+        prunedAt = Date.now();
+        void pruneFileInventoryCache(root).catch((error) => {
+          console.error("Inventory cache prune error:", error);
+        });
+      }
+    },
+    async delete(key) {
+      await fs.rm(entryPath(key), { force: true });
+    },
+  };
+}
 
-    files.push({
-      name: fileName,
-      path: entry.relativePath,
-      folder: folderPath,
-      sha: entry.sha,
-      size: entry.size,
-      download_url: toRawGitHubUrl(selection, entry.repoPath),
-    });
+function createInventoryCache(): InventoryCacheStore | null {
+  switch (INVENTORY_CACHE_MODE) {
+    case "off":
+      return null;
+    case "file":
+      return createFileInventoryCache(INVENTORY_CACHE_DIR);
+    case "memory":
+      return createMemoryInventoryCache(INVENTORY_CACHE_MAX_BYTES);
+    default:
+      console.warn(`[WARN] Unknown INVENTORY_CACHE "${INVENTORY_CACHE_MODE}". Using the in-memory cache.`);
+      return createMemoryInventoryCache(INVENTORY_CACHE_MAX_BYTES);
   }
+}
 
-  files.sort((a, b) => a.path.localeCompare(b.path));
+// Set by createApiApp. One store serves the whole process, so the most recently created
+// app decides which store is used.
+let inventoryCache: InventoryCacheStore | null = null;
 
-  const folders: AssetFolder[] = Array.from(folderSet)
-    .sort((a, b) => a.localeCompare(b))
-    .map((folderPath) => ({
-      path: folderPath,
-      name: fileNameFromPath(folderPath),
-      parent: parentFolderPath(folderPath) || null,
-    }));
+// For a single long-running process. Expired entries are dropped on each write.
+function createMemoryUploadStaging(): UploadStagingStore {
+  const entries = new Map<string, { value: Buffer; expiresAt: number }>();
 
-  return { files, folders };
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    return entry && entry.expiresAt >= Date.now() ? entry.value : null;
+  };
+
+  return {
+    async get(key) {
+      return read(key);
+    },
+    async has(key) {
+      return read(key) !== null;
+    },
+    async set(key, value, expiresAt) {
+      const now = Date.now();
+      for (const [entryKey, entry] of entries) {
+        if (entry.expiresAt < now) {
+          entries.delete(entryKey);
+        }
+      }
+      entries.set(key, { value, expiresAt });
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
 }
 
-function readSession(req: Request): UserSession | null {
-  const payload = readEncryptedCookie<UserSession>(req, SESSION_COOKIE_NAME);
-  if (!payload) {
+// Removes staged files whose expiry, kept as their mtime, has passed.
+async function pruneFileUploadStaging(root: string) {
+  let names: string[];
+  try {
+    names = await fs.readdir(root);
+  } catch {
+    return;
+  }
+
+  const now = Date.now();
+  for (const name of names) {
+    const filePath = path.join(root, name);
+    try {
+      if ((await fs.stat(filePath)).mtimeMs < now) {
+        await fs.rm(filePath, { force: true });
+      }
+    } catch {
+      // Removed by another process in the meantime.
+    }
+  }
+}
+
+// Shared by every process that sees the same directory. A file's mtime holds its expiry.
+function createFileUploadStaging(root: string): UploadStagingStore {
+  const entryPath = (key: string) => path.join(root, crypto.createHash("sha256").update(key).digest("hex"));
+  const isLive = async (filePath: string) => (await fs.stat(filePath)).mtimeMs >= Date.now();
+  let prunedAt = 0;
+
+  return {
+    async get(key) {
+      const filePath = entryPath(key);
+      try {
+        return (await isLive(filePath)) ? await fs.readFile(filePath) : null;
+      } catch {
+        return null;
+      }
+    },
+    async has(key) {
+      try {
+        return await isLive(entryPath(key));
+      } catch {
+        return false;
+      }
+    },
+    async set(key, value, expiresAt) {
+      const filePath = entryPath(key);
+      await fs.mkdir(root, { recursive: true });
+      await fs.writeFile(filePath, value);
+      await fs.utimes(filePath, new Date(), new Date(expiresAt));
+
+      if (Date.now() - prunedAt >= UPLOAD_STAGING_PRUNE_INTERVAL_MS) {
+        prunedAt = Date.now();
+        void pruneFileUploadStaging(root).catch((error) => {
+          console.error("Upload staging prune error:", error);
+        });
+      }
+    },
+    async delete(key) {
+      await fs.rm(entryPath(key), { force: true });
+    },
+  };
+}
+
+function createUploadStaging(): UploadStagingStore | null {
+  switch (UPLOAD_STAGING_MODE) {
+    case "off":
+      return null;
+    case "file":
+      return createFileUploadStaging(UPLOAD_STAGING_DIR);
+    case "memory":
+      return createMemoryUploadStaging();
+    default:
+      console.warn(`[WARN] Unknown UPLOAD_STAGING "${UPLOAD_STAGING_MODE}". Chunked uploads are disabled.`);
+      return null;
+  }
+}
+
+// Set by createApiApp like inventoryCache. Chunked uploads are refused while it is null.
+let uploadStaging: UploadStagingStore | null = null;
+
+function branchHeadCacheKey(selection: RepoSelection): string {
+  return `head:${selection.owner}/${selection.repo}@${selection.branch}`;
+}
+
+// Tree SHAs are content addresses, so a cached listing never goes stale. Only the
+// branch head has to be revalidated.
+function assetTreeCacheKey(selection: RepoSelection, treeSha: string): string {
+  return `tree:${selection.owner}/${selection.repo}:${treeSha}`;
+}
+
+// Called after every commit GitCDN makes, so the next listing reads the new head.
+async function forgetBranchHead(selection: RepoSelection) {
+  await inventoryCache?.delete(branchHeadCacheKey(selection));
+}
+
+// Revalidates the cached head with If-None-Match. GitHub answers 304 for an unchanged
+// branch without counting the request against the rate limit.
+async function getBranchHead(octokit: Octokit, selection: RepoSelection): Promise<BranchHead> {
+  const cacheKey = branchHeadCacheKey(selection);
+  const cached = await inventoryCache?.get<{ etag: string; head: BranchHead }>(cacheKey);
+
+  let response;
+  try {
+    response = await octokit.repos.getBranch({
+      owner: selection.owner,
+      repo: selection.repo,
+      branch: selection.branch,
+      headers: cached ? { "if-none-match": cached.etag } : {},
+    });
+  } catch (error: any) {
+    if (error?.status === 304 && cached) {
+      return cached.head;
+    }
+    throw error;
+  }
+
+  const commitSha = response.data.commit.sha;
+  const treeSha = response.data.commit.commit.tree.sha;
+  const assetsTreeSha =
+    cached?.head.treeSha === treeSha ? cached.head.assetsTreeSha : await findAssetsTreeSha(octokit, selection, treeSha);
+
+  const head = { commitSha, treeSha, assetsTreeSha };
+  if (response.headers.etag) {
+    await inventoryCache?.set(cacheKey, { etag: response.headers.etag, head });
+  }
+
+  return head;
+}
+
+async function findAssetsTreeSha(octokit: Octokit, selection: RepoSelection, treeSha: string): Promise<string | null> {
+  const { data: rootTree } = await octokit.git.getTree({
+    owner: selection.owner,
+    repo: selection.repo,
+    tree_sha: treeSha,
+  });
+
+  return rootTree.tree.find((treeNode) => treeNode.path === ASSETS_ROOT_PATH && treeNode.type === "tree")?.sha ?? null;
+}
+
+async function getAssetBlobEntries(
+  octokit: Octokit,
+  selection: RepoSelection,
+): Promise<AssetBlobEntry[]> {
+  return (await getAssetSnapshot(octokit, selection)).entries;
+}
+
+// Reads the asset tree together with the branch head it was read from, so URLs can
+// be pinned to a commit that is known to contain every listed file. Only assets/ is
+// listed, so the rest of a large repository never counts towards GitHub's tree limit.
+async function getAssetSnapshot(
+  octokit: Octokit,
+  selection: RepoSelection,
+  head?: BranchHead,
+): Promise<AssetSnapshot> {
+  const { commitSha, assetsTreeSha } = head ?? (await getBranchHead(octokit, selection));
+  if (!assetsTreeSha) {
+    return { commitSha, assetsTreeSha, complete: true, entries: [], trashEntries: [], imageInfoBlobs: new Map() };
+  }
+
+  return { commitSha, assetsTreeSha, ...(await readAssetTree(octokit, selection, assetsTreeSha)) };
+}
+
+// Splits the blobs below an assets/ tree into assets, trash entries and image info files.
+async function readAssetTree(
+  octokit: Octokit,
+  selection: RepoSelection,
+  assetsTreeSha: string,
+): Promise<Omit<AssetSnapshot, "commitSha" | "assetsTreeSha">> {
+  const entries: AssetBlobEntry[] = [];
+  const trashEntries: TrashEntry[] = [];
+  const imageInfoBlobs = new Map<string, string>();
+  const cacheKey = assetTreeCacheKey(selection, assetsTreeSha);
+  let listing = await inventoryCache?.get<{ blobs: TreeBlob[]; complete: boolean }>(cacheKey);
+  if (!listing) {
+    listing = await listTreeBlobs(octokit, selection, assetsTreeSha, ASSETS_ROOT_PATH, { requests: 0 });
+    await inventoryCache?.set(cacheKey, listing);
+  }
+
+  for (const blob of listing.blobs) {
+    const trashEntry = parseTrashEntry(blob.path, blob.sha, blob.size);
+    if (trashEntry) {
+      trashEntries.push(trashEntry);
+      continue;
+    }
+
+    const imageInfoSha = parseImageInfoRepoPath(blob.path);
+    if (imageInfoSha) {
+      imageInfoBlobs.set(imageInfoSha, blob.sha);
+      continue;
+    }
+
+    const relativePath = normalizeAssetRelativePath(blob.path);
+    if (!relativePath) {
+      continue;
+    }
+
+    entries.push({
+      repoPath: joinAssetRepoPath(relativePath),
+      relativePath,
+      sha: blob.sha,
+      size: blob.size,
+    });
+  }
+
+  return { complete: listing.complete, entries, trashEntries, imageInfoBlobs };
+}
+
+// Lists every blob below `treeSha` with paths prefixed by `basePath`. When GitHub
+// truncates the recursive listing, the tree is walked one folder level at a time
+// instead. `complete` is false if that walk also hit a limit.
+async function listTreeBlobs(
+  octokit: Octokit,
+  selection: RepoSelection,
+  treeSha: string,
+  basePath: string,
+  walk: { requests: number },
+): Promise<{ blobs: TreeBlob[]; complete: boolean }> {
+  const toPath = (treePath: string) => (basePath ? `${basePath}/${treePath}` : treePath);
+
+  walk.requests += 1;
+  const { data: treeData } = await octokit.git.getTree({
+    owner: selection.owner,
+    repo: selection.repo,
+    tree_sha: treeSha,
+    recursive: "1",
+  });
+
+  if (!treeData.truncated) {
+    const blobs: TreeBlob[] = [];
+    for (const treeNode of treeData.tree) {
+      if (treeNode.type === "blob" && treeNode.path && treeNode.sha) {
+        blobs.push({ path: toPath(treeNode.path), sha: treeNode.sha, size: treeNode.size ?? 0 });
+      }
+    }
+    return { blobs, complete: true };
+  }
+
+  walk.requests += 1;
+  const { data: levelData } = await octokit.git.getTree({
+    owner: selection.owner,
+    repo: selection.repo,
+    tree_sha: treeSha,
+  });
+
+  const blobs: TreeBlob[] = [];
+  let complete = !levelData.truncated;
+
+  for (const treeNode of levelData.tree) {
+    if (!treeNode.path || !treeNode.sha) {
+      continue;
+    }
+
+    if (treeNode.type === "blob") {
+      blobs.push({ path: toPath(treeNode.path), sha: treeNode.sha, size: treeNode.size ?? 0 });
+      continue;
+    }
+
+    if (treeNode.type !== "tree") {
+      continue;
+    }
+
+    if (walk.requests >= TREE_WALK_MAX_REQUESTS) {
+      complete = false;
+      continue;
+    }
+
+    const subtree = await listTreeBlobs(octokit, selection, treeNode.sha, toPath(treeNode.path), walk);
+    blobs.push(...subtree.blobs);
+    complete = complete && subtree.complete;
+  }
+
+  return { blobs, complete };
+}
+
+function parseTrashEntry(repoPath: string, sha: string, size: number): TrashEntry | null {
+  const trashPrefix = `${ASSETS_ROOT_PATH}/${TRASH_FOLDER}/`;
+  if (!repoPath.startsWith(trashPrefix)) {
     return null;
   }
 
-  if (Date.now() > payload.expires_at) {
+  const trashPath = repoPath.slice(trashPrefix.length);
+  const separatorIndex = trashPath.indexOf("/");
+  // Batch ids are <deleted_at>-<random>. Batches from before the suffix are just <deleted_at>.
+  const batchId = trashPath.slice(0, separatorIndex);
+  if (separatorIndex <= 0 || !/^\d+(-[a-f0-9]+)?$/.test(batchId)) {
     return null;
   }
 
-  if (typeof payload.github_token !== "string" || !payload.github_token) {
+  const originalPath = normalizeAssetRelativePath(trashPath.slice(separatorIndex + 1));
+  if (!originalPath) {
     return null;
   }
 
-  return payload;
+  return {
+    id: `${batchId}/${originalPath}`,
+    batchId,
+    repoPath,
+    originalPath,
+    deletedAt: Number.parseInt(batchId, 10),
+    sha,
+    size,
+  };
 }
 
-function writeSession(
-  res: Response,
-  partial: Omit<UserSession, "issued_at" | "expires_at">,
-) {
+function trashExpiresAt(config: GitCdnRepoConfig, entry: TrashEntry): number {
+  return entry.deletedAt + config.trash.retention_days * 24 * 60 * 60 * 1000;
+}
+
+function expiredTrashChanges(config: GitCdnRepoConfig, trashEntries: TrashEntry[], now: number): AssetTreeChange[] {
+  return trashEntries
+    .filter((entry) => trashExpiresAt(config, entry) <= now)
+    .map((entry) => ({ repoPath: entry.repoPath, sha: null }));
+}
+
+// Commits the removal of trash past its retention. Returns null when nothing expired.
+async function purgeExpiredTrash(
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  snapshot: AssetSnapshot,
+  now: number,
+): Promise<string | null> {
+  const expiredChanges = expiredTrashChanges(config, snapshot.trashEntries, now);
+  if (expiredChanges.length === 0) {
+    return null;
+  }
+
+  return commitAssetTreeChanges(
+    octokit,
+    selection,
+    [...expiredChanges, ...staleImageInfoChanges(snapshot, expiredChanges)],
+    "Purge expired trash via GitCDN",
+    config,
+    metadataMovesEdit(expiredChanges.map((change): [string, string | null] => [change.repoPath, null])),
+  );
+}
+
+// Trash ids name either one file (<batch>/<original path>) or a whole delete batch. A
+// file brings along the image variants trashed with it.
+function selectTrashEntries(trashEntries: TrashEntry[], ids: string[]): TrashEntry[] {
+  const idSet = new Set(ids);
+  const selected = trashEntries.filter((entry) => idSet.has(entry.id) || idSet.has(entry.batchId));
+  const variantKeys = new Set(selected.map((entry) => `${entry.batchId}/${imageVariantKey(entry.originalPath)}`));
+  return trashEntries.filter((entry) => {
+    const variant = parseImageVariantPath(entry.originalPath);
+    return selected.includes(entry) || (variant !== null && variantKeys.has(`${entry.batchId}/${variant.key}`));
+  });
+}
+
+function parseTrashIds(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  return value.every((id) => typeof id === "string" && id.trim()) ? value.map((id) => id.trim()) : null;
+}
+
+// Deletes `entries` and their image variants in one commit. Unless `permanent`, each file
+// first moves to a new trash batch that keeps its original path. Expired trash is purged
+// in the same commit.
+async function deleteAssetEntries(
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  snapshot: AssetSnapshot,
+  entries: AssetBlobEntry[],
+  permanent: boolean,
+  message: string,
+): Promise<{ commitSha: string; trashId: string | null }> {
   const now = Date.now();
-  const payload: UserSession = {
-    ...partial,
-    issued_at: now,
-    expires_at: now + SESSION_TTL_MS,
-  };
+  // The suffix keeps two deletes in the same millisecond out of each other's batch.
+  const trashId = permanent ? null : `${now}-${crypto.randomBytes(4).toString("hex")}`;
+  const changes: AssetTreeChange[] = [];
+
+  const variantEntries = findImageVariantEntries(snapshot.entries, entries).map((variant) => variant.entry);
+  for (const entry of [...entries, ...variantEntries]) {
+    if (trashId) {
+      changes.push({
+        repoPath: `${ASSETS_ROOT_PATH}/${TRASH_FOLDER}/${trashId}/${entry.relativePath}`,
+        sha: entry.sha,
+      });
+    }
+    changes.push({ repoPath: entry.repoPath, sha: null });
+  }
 
-  writeEncryptedCookie(res, SESSION_COOKIE_NAME, payload, SESSION_TTL_MS);
+  const expiredChanges = expiredTrashChanges(config, snapshot.trashEntries, now);
+  changes.push(...expiredChanges);
+  // Trashed files keep their image info, since their blobs are still held.
+  changes.push(...staleImageInfoChanges(snapshot, changes));
+  const metadataMoves = [
+    ...[...entries, ...variantEntries].map((entry): [string, string | null] => [
+      entry.repoPath,
+      trashId ? `${ASSETS_ROOT_PATH}/${TRASH_FOLDER}/${trashId}/${entry.relativePath}` : null,
+    ]),
+    ...expiredChanges.map((change): [string, string | null] => [change.repoPath, null]),
+  ];
+
+  const commitSha = await commitAssetTreeChanges(
+    octokit,
+    selection,
+    changes,
+    message,
+    config,
+    metadataMovesEdit(metadataMoves),
+  );
+  return { commitSha, trashId };
 }
 
-function clearAuthCookies(res: Response) {
-  clearCookie(res, SESSION_COOKIE_NAME);
-  clearCookie(res, OAUTH_STATE_COOKIE_NAME);
+// Marks commits made by GitCDN so undo can refuse commits it did not author.
+function withGitCdnTrailer(message: string): string {
+  return `${message}\n\n${GITCDN_COMMIT_TRAILER}`;
+}
+
+// Commits from before the trailer existed are recognized by their "via GitCDN" subject.
+function isGitCdnCommitMessage(message: string): boolean {
+  const lines = message.split("\n").map((line) => line.trim());
+  return lines.includes(GITCDN_COMMIT_TRAILER) || lines[0].endsWith("via GitCDN");
+}
+
+// Returns null when no commit in the repository has this SHA.
+async function findCommit(octokit: Octokit, selection: RepoSelection, commitSha: string) {
+  try {
+    const { data } = await octokit.git.getCommit({ owner: selection.owner, repo: selection.repo, commit_sha: commitSha });
+    return data;
+  } catch (error: any) {
+    if (error?.status === 404 || error?.status === 422) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Lists the paths a commit changed, with both sides of a rename. GitHub pages the list
+// and stops at 3000 files, so a longer list returns null.
+async function listCommitChangedPaths(
+  octokit: Octokit,
+  selection: RepoSelection,
+  commitSha: string,
+): Promise<string[] | null> {
+  const paths = new Set<string>();
+  for (let page = 1; ; page += 1) {
+    const { data } = await octokit.repos.getCommit({
+      owner: selection.owner,
+      repo: selection.repo,
+      ref: commitSha,
+      per_page: COMMIT_FILES_PAGE_SIZE,
+      page,
+    });
+
+    const files = data.files ?? [];
+    for (const file of files) {
+      paths.add(file.filename);
+      if (file.previous_filename) {
+        paths.add(file.previous_filename);
+      }
+    }
+
+    if (files.length < COMMIT_FILES_PAGE_SIZE) {
+      return Array.from(paths);
+    }
+    if (page * COMMIT_FILES_PAGE_SIZE >= COMMIT_FILES_MAX) {
+      return null;
+    }
+  }
+}
+
+// Reads the blob SHA and mode of each of `paths` at a commit by listing the folders that
+// hold them, a batch of folders per GraphQL query. Paths that name no file are left out.
+async function getFileEntriesAt(
+  octokit: Octokit,
+  selection: RepoSelection,
+  commitSha: string,
+  paths: string[],
+): Promise<Map<string, { sha: string; mode: FileMode }>> {
+  const wantedPaths = new Set(paths);
+  const folders = Array.from(new Set(paths.map(parentFolderPath)));
+  const files = new Map<string, { sha: string; mode: FileMode }>();
+
+  for (let start = 0; start < folders.length; start += TREE_LOOKUP_BATCH_SIZE) {
+    const batch = folders.slice(start, start + TREE_LOOKUP_BATCH_SIZE);
+    const variables: Record<string, string> = { owner: selection.owner, repo: selection.repo };
+    batch.forEach((folder, index) => {
+      variables[`expression${index}`] = `${commitSha}:${folder}`;
+    });
+
+    // Folders that do not exist at the commit come back as null.
+    const data = await octokit.graphql<{
+      repository: Record<string, { entries?: { name: string; mode: number; oid: string; type: string }[] } | null>;
+    }>(
+      `query ($owner: String!, $repo: String!, ${batch.map((_, index) => `$expression${index}: String!`).join(", ")}) {
+        repository(owner: $owner, name: $repo) {
+          ${batch
+            .map((_, index) => `tree${index}: object(expression: $expression${index}) { ... on Tree { entries { name mode oid type } } }`)
+            .join("\n")}
+        }
+      }`,
+      variables,
+    );
+
+    batch.forEach((folder, index) => {
+      for (const entry of data.repository[`tree${index}`]?.entries ?? []) {
+        const path = folder ? `${folder}/${entry.name}` : entry.name;
+        // GraphQL reports the mode as a number, such as 33188 for 0o100644.
+        const mode = FILE_MODES.find((candidate) => candidate === entry.mode.toString(8));
+        if (entry.type === "blob" && mode && wantedPaths.has(path)) {
+          files.set(path, { sha: entry.oid, mode });
+        }
+      }
+    });
+  }
+
+  return files;
+}
+
+async function getBranchHeadSha(octokit: Octokit, selection: RepoSelection): Promise<string> {
+  const { data: refData } = await octokit.git.getRef({
+    owner: selection.owner,
+    repo: selection.repo,
+    ref: `heads/${selection.branch}`,
+  });
+
+  return refData.object.sha;
+}
+
+// Returns target paths that would overwrite, or collide file-vs-folder with, an
+// existing entry that is not itself part of the move.
+function collectMoveConflicts(
+  blobEntries: AssetBlobEntry[],
+  movedPaths: Set<string>,
+  targetPaths: string[],
+): string[] {
+  const remainingPaths = blobEntries
+    .map((entry) => entry.relativePath)
+    .filter((path) => !movedPaths.has(path));
+
+  return targetPaths.filter((targetPath) =>
+    remainingPaths.some(
+      (path) =>
+        path === targetPath ||
+        path.startsWith(`${targetPath}/`) ||
+        targetPath.startsWith(`${path}/`),
+    ),
+  );
+}
+
+async function createAssetBlob(
+  octokit: Octokit,
+  selection: RepoSelection,
+  content: Buffer,
+): Promise<string> {
+  const { data: blobData } = await octokit.git.createBlob({
+    owner: selection.owner,
+    repo: selection.repo,
+    content: content.toString("base64"),
+    encoding: "base64",
+  });
+
+  return blobData.sha;
+}
+
+// Applies all changes on top of the branch head as a single commit. If the branch
+// moves between reading the head and updating the ref, the commit is rebuilt on the
+// new head instead of failing the whole operation. `editMetadata` is reapplied to the
+// metadata manifest of each head.
+async function commitAssetTreeChanges(
+  octokit: Octokit,
+  selection: RepoSelection,
+  changes: AssetTreeChange[],
+  message: string,
+  config?: GitCdnRepoConfig,
+  editMetadata?: MetadataEdit,
+): Promise<string> {
+  // `changes` is never empty, so there is always something to commit.
+  return (await commitRebasedTreeChanges(octokit, selection, message, config, async (headSha) => [
+    ...changes,
+    ...(editMetadata ? await metadataEditChanges(octokit, selection, headSha, editMetadata) : []),
+  ])) as string;
+}
+
+// Commits a metadata edit on its own. Returns null when it changes nothing.
+async function commitMetadataEdit(
+  octokit: Octokit,
+  selection: RepoSelection,
+  editMetadata: MetadataEdit,
+  message: string,
+  config?: GitCdnRepoConfig,
+): Promise<string | null> {
+  return commitRebasedTreeChanges(octokit, selection, message, config, (headSha) =>
+    metadataEditChanges(octokit, selection, headSha, editMetadata),
+  );
 }
 
-function requireSession(req: Request, res: Response): UserSession | null {
-  const session = readSession(req);
-  if (!session) {
-    clearCookie(res, SESSION_COOKIE_NAME);
-    res.status(401).json({ error: "Unauthorized" });
-    return null;
-  }
+// The commit loop behind commitAssetTreeChanges. `buildChanges` runs once per attempt
+// with the head commit it builds on. Returns null when it has nothing to change, and
+// throws branchMovedError when the last attempt still loses the race.
+async function commitRebasedTreeChanges(
+  octokit: Octokit,
+  selection: RepoSelection,
+  message: string,
+  config: GitCdnRepoConfig | undefined,
+  buildChanges: (headSha: string) => Promise<AssetTreeChange[]>,
+): Promise<string | null> {
+  const ref = `heads/${selection.branch}`;
+  const repoConfig = config ?? (await readRepoConfig(octokit, selection));
+
+  for (let attempt = 1; ; attempt += 1) {
+    const { data: refData } = await octokit.git.getRef({
+      owner: selection.owner,
+      repo: selection.repo,
+      ref,
+    });
+
+    const headSha = refData.object.sha;
+    const changes = await buildChanges(headSha);
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const { data: headCommit } = await octokit.git.getCommit({
+      owner: selection.owner,
+      repo: selection.repo,
+      commit_sha: headSha,
+    });
+
+    let { data: treeData } = await octokit.git.createTree({
+      owner: selection.owner,
+      repo: selection.repo,
+      base_tree: headCommit.tree.sha,
+      tree: changes.map((change) => ({
+        path: change.repoPath,
+        mode: change.mode ?? ("100644" as const),
+        type: "blob" as const,
+        sha: change.sha,
+      })),
+    });
+
+    // The manifest describes the tree with the changes applied, so it is added on top.
+    // A manifest that cannot be updated fails the commit rather than go stale.
+    if (repoConfig.manifest.enabled) {
+      const manifestChange = await assetManifestChange(octokit, selection, repoConfig, headSha, treeData.sha, changes);
+      if (manifestChange) {
+        ({ data: treeData } = await octokit.git.createTree({
+          owner: selection.owner,
+          repo: selection.repo,
+          base_tree: treeData.sha,
+          tree: [{ path: manifestChange.repoPath, mode: "100644", type: "blob", sha: manifestChange.sha }],
+        }));
+      }
+    }
+
+    const { data: commitData } = await octokit.git.createCommit({
+      owner: selection.owner,
+      repo: selection.repo,
+      message: withGitCdnTrailer(message),
+      tree: treeData.sha,
+      parents: [headSha],
+    });
+
+    try {
+      await octokit.git.updateRef({
+        owner: selection.owner,
+        repo: selection.repo,
+        ref,
+        sha: commitData.sha,
+        force: false,
+      });
+
+      await forgetBranchHead(selection);
+      return commitData.sha;
+    } catch (error: any) {
+      if (error?.status !== 422) {
+        throw error;
+      }
+      if (attempt >= COMMIT_MAX_ATTEMPTS) {
+        throw branchMovedError(selection);
+      }
+    }
+  }
+}
+
+// The branch moved on every attempt of a rebased commit. Nothing conflicted, so the
+// same request can simply be sent again.
+function branchMovedError(selection: RepoSelection): Error {
+  return Object.assign(new Error(`${selection.branch} kept moving while committing.`), {
+    status: 409,
+    branchMoved: true,
+  });
+}
+
+function isBranchMovedError(error: any): boolean {
+  return error?.branchMoved === true;
+}
+
+// Commits a single file. createOrUpdateFileContents checks `previousSha` against the
+// branch, but it cannot add a second file, so a committed manifest needs a tree commit.
+// That commit makes the same check against each head it builds on and fails with 409.
+async function commitAssetFile(
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  repoPath: string,
+  content: Buffer,
+  message: string,
+  previousSha?: string,
+): Promise<string> {
+  if (config.manifest.enabled) {
+    const blobSha = await createAssetBlob(octokit, selection, content);
+    // There is always a change to commit, so the result is never null.
+    return (await commitRebasedTreeChanges(octokit, selection, message, config, async (headSha) => {
+      const [current] = await getBlobsAt(octokit, selection, [`${headSha}:${repoPath}`]);
+      if ((current?.sha ?? null) !== (previousSha ?? null)) {
+        throw Object.assign(new Error(`${repoPath} changed since it was read.`), { status: 409 });
+      }
+      return [{ repoPath, sha: blobSha }];
+    })) as string;
+  }
+
+  const { data: commitData } = await octokit.repos.createOrUpdateFileContents({
+    owner: selection.owner,
+    repo: selection.repo,
+    path: repoPath,
+    branch: selection.branch,
+    message: withGitCdnTrailer(message),
+    content: content.toString("base64"),
+    sha: previousSha,
+  });
+  await forgetBranchHead(selection);
+  return commitData.commit.sha ?? (await getBranchHeadSha(octokit, selection));
+}
+
+function defaultRepoConfig(): GitCdnRepoConfig {
+  return {
+    cdn: { provider: "jsdelivr", template: null },
+    trash: { retention_days: TRASH_DEFAULT_RETENTION_DAYS },
+    lfs: { enabled: false, folders: [] },
+    naming: { strategy: "timestamp" },
+    views: [],
+    manifest: { enabled: false },
+    optimization: { ...defaultImageOptimization(), folders: {} },
+  };
+}
+
+function defaultImageOptimization(): ImageOptimizationSettings {
+  return { enabled: false, quality: IMAGE_OPTIMIZATION_DEFAULT_QUALITY, format: "original", keep_original: false };
+}
+
+// Validates the fields present in `value`; returns null when any is invalid.
+function parseImageOptimizationOverride(value: unknown): Partial<ImageOptimizationSettings> | null {
+  const input = asPlainObject(value);
+  if (!input) {
+    return null;
+  }
+
+  const override: Partial<ImageOptimizationSettings> = {};
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") {
+      return null;
+    }
+    override.enabled = input.enabled;
+  }
+  if (input.quality !== undefined) {
+    const quality = parsePositiveInteger(input.quality);
+    if (!quality || quality > 100) {
+      return null;
+    }
+    override.quality = quality;
+  }
+  if (input.format !== undefined) {
+    const format = IMAGE_OUTPUT_FORMATS.find((entry) => entry === input.format);
+    if (!format) {
+      return null;
+    }
+    override.format = format;
+  }
+  if (input.keep_original !== undefined) {
+    if (typeof input.keep_original !== "boolean") {
+      return null;
+    }
+    override.keep_original = input.keep_original;
+  }
+
+  return override;
+}
+
+// Omitted fields keep their value from `base`.
+function parseImageOptimizationSettings(
+  value: unknown,
+  base: ImageOptimizationSettings,
+): ImageOptimizationSettings | null {
+  const override = parseImageOptimizationOverride(value);
+  if (!override) {
+    return null;
+  }
+
+  const { enabled, quality, format, keep_original } = base;
+  return { enabled, quality, format, keep_original, ...override };
+}
+
+function parseImageOptimizationFolders(value: unknown): Record<string, Partial<ImageOptimizationSettings>> | null {
+  const input = asPlainObject(value);
+  if (!input) {
+    return null;
+  }
+
+  const entries = Object.entries(input);
+  if (entries.length > IMAGE_OPTIMIZATION_MAX_FOLDERS) {
+    return null;
+  }
+
+  const folders: Record<string, Partial<ImageOptimizationSettings>> = {};
+  for (const [folderInput, overrideInput] of entries) {
+    const folder = normalizeFolderPath(folderInput);
+    const override = parseImageOptimizationOverride(overrideInput);
+    if (!folder || !override) {
+      return null;
+    }
+    folders[folder] = override;
+  }
+
+  return folders;
+}
+
+// Applies the overrides of every folder containing `folder` to the repository-wide
+// settings, from the shallowest to the deepest.
+function resolveImageOptimization(config: GitCdnRepoConfig, folder: string): ImageOptimizationSettings {
+  const { folders, ...repoSettings } = config.optimization;
+  return Object.keys(folders)
+    .filter((candidate) => isDescendantOrSameFolder(candidate, folder))
+    .sort((a, b) => a.length - b.length)
+    .reduce<ImageOptimizationSettings>((settings, candidate) => ({ ...settings, ...folders[candidate] }), repoSettings);
+}
+
+function parseCdnUrlTemplate(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed.includes("{path}") && !trimmed.includes("{asset_path}")) {
+    return null;
+  }
+
+  // Any brace left after removing the known placeholders is a typo in the template.
+  const sample = trimmed.replace(CDN_TEMPLATE_PLACEHOLDER_PATTERN, "x");
+  if (/[{}\s]/.test(sample)) {
+    return null;
+  }
+
+  try {
+    return new URL(sample).protocol === "https:" ? trimmed : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseFolderList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const folders = new Set<string>();
+  for (const entry of value) {
+    const folder = normalizeFolderPath(entry);
+    if (folder == null) {
+      return null;
+    }
+    if (folder) {
+      folders.add(folder);
+    }
+  }
+
+  return Array.from(folders).sort((a, b) => a.localeCompare(b));
+}
+
+function parseSavedView(value: unknown): SavedAssetView | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  const folder = input.folder === undefined ? "" : normalizeFolderPath(input.folder);
+  const tags = parseMetadataTags(input.tags ?? [], []);
+  const type =
+    input.type == null || input.type === ""
+      ? null
+      : input.type === "other" || Object.hasOwn(ASSET_CATEGORY_EXTENSIONS, String(input.type))
+        ? (input.type as AssetCategory)
+        : undefined;
+  const sort = input.sort === undefined ? "name" : ASSET_SORT_FIELDS.find((field) => field === input.sort);
+  const order = input.order === undefined ? "asc" : input.order === "asc" || input.order === "desc" ? input.order : null;
+  const q = typeof input.q === "string" && input.q.trim() ? input.q.trim() : null;
+
+  if (
+    !name ||
+    name.length > SAVED_VIEW_NAME_MAX_LENGTH ||
+    folder == null ||
+    !tags ||
+    type === undefined ||
+    !sort ||
+    !order ||
+    (input.q != null && typeof input.q !== "string") ||
+    (input.recursive !== undefined && typeof input.recursive !== "boolean")
+  ) {
+    return null;
+  }
+
+  return { name, folder, recursive: input.recursive === true, tags, type, q, sort, order };
+}
+
+function parseSavedViews(value: unknown): SavedAssetView[] | null {
+  if (!Array.isArray(value) || value.length > SAVED_VIEWS_MAX) {
+    return null;
+  }
+
+  const views: SavedAssetView[] = [];
+  for (const entry of value) {
+    const view = parseSavedView(entry);
+    if (!view || views.some((existing) => existing.name.toLowerCase() === view.name.toLowerCase())) {
+      return null;
+    }
+    views.push(view);
+  }
+
+  return views;
+}
+
+function asPlainObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+// Validates the sections present in `value` and takes the rest from `base`.
+// Returns null when any provided section is invalid.
+function parseRepoConfig(value: unknown, base: GitCdnRepoConfig): GitCdnRepoConfig | null {
+  const input = asPlainObject(value);
+  if (!input) {
+    return null;
+  }
+
+  const config: GitCdnRepoConfig = structuredClone(base);
+
+  if (input.cdn !== undefined) {
+    const cdn = asPlainObject(input.cdn);
+    const provider = CDN_PROVIDERS.find((entry) => entry === cdn?.provider);
+    const template = provider === "custom" ? parseCdnUrlTemplate(cdn?.template) : null;
+    if (!provider || (provider === "custom" && !template)) {
+      return null;
+    }
+    config.cdn = { provider, template };
+  }
+
+  if (input.trash !== undefined) {
+    const retentionDays = parsePositiveInteger(asPlainObject(input.trash)?.retention_days);
+    if (!retentionDays || retentionDays > TRASH_MAX_RETENTION_DAYS) {
+      return null;
+    }
+    config.trash = { retention_days: retentionDays };
+  }
+
+  if (input.lfs !== undefined) {
+    const lfs = asPlainObject(input.lfs);
+    if (!lfs) {
+      return null;
+    }
+    const folders = lfs.folders === undefined ? base.lfs.folders : parseFolderList(lfs.folders);
+    const enabled = lfs.enabled === undefined ? base.lfs.enabled : lfs.enabled;
+    if (!folders || typeof enabled !== "boolean") {
+      return null;
+    }
+    config.lfs = { enabled, folders };
+  }
+
+  if (input.naming !== undefined) {
+    const strategy = NAMING_STRATEGIES.find((entry) => entry === asPlainObject(input.naming)?.strategy);
+    if (!strategy) {
+      return null;
+    }
+    config.naming = { strategy };
+  }
+
+  if (input.manifest !== undefined) {
+    const enabled = asPlainObject(input.manifest)?.enabled;
+    if (typeof enabled !== "boolean") {
+      return null;
+    }
+    config.manifest = { enabled };
+  }
+
+  if (input.optimization !== undefined) {
+    const settings = parseImageOptimizationSettings(input.optimization, base.optimization);
+    const foldersInput = asPlainObject(input.optimization)?.folders;
+    const folders =
+      foldersInput === undefined ? base.optimization.folders : parseImageOptimizationFolders(foldersInput);
+    if (!settings || !folders) {
+      return null;
+    }
+    config.optimization = { ...settings, folders };
+  }
+
+  if (input.views !== undefined) {
+    const views = parseSavedViews(input.views);
+    if (!views) {
+      return null;
+    }
+    config.views = views;
+  }
+
+  return config;
+}
+
+async function readRepoTextFile(
+  octokit: Octokit,
+  selection: RepoSelection,
+  repoPath: string,
+): Promise<string | null> {
+  try {
+    const { data } = await octokit.repos.getContent({
+      owner: selection.owner,
+      repo: selection.repo,
+      path: repoPath,
+      ref: selection.branch,
+    });
+
+    if (Array.isArray(data) || data.type !== "file" || data.encoding !== "base64") {
+      return null;
+    }
+
+    return Buffer.from(data.content, "base64").toString("utf8");
+  } catch (error: any) {
+    if (error?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readRepoConfig(octokit: Octokit, selection: RepoSelection): Promise<GitCdnRepoConfig> {
+  const raw = await readRepoTextFile(octokit, selection, REPO_CONFIG_PATH);
+  if (raw == null) {
+    return defaultRepoConfig();
+  }
+
+  try {
+    return parseRepoConfig(JSON.parse(raw), defaultRepoConfig()) ?? defaultRepoConfig();
+  } catch {
+    console.warn(`Ignoring invalid ${REPO_CONFIG_PATH} in ${selection.owner}/${selection.repo}.`);
+    return defaultRepoConfig();
+  }
+}
+
+function emptyAssetMetadata(): AssetMetadata {
+  return { alt: null, description: null, tags: [] };
+}
+
+function parseAssetImageInfo(value: unknown): AssetImageInfo | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+  const width = parsePositiveInteger(input.width);
+  const height = parsePositiveInteger(input.height);
+  if (
+    !width ||
+    !height ||
+    typeof input.placeholder !== "string" ||
+    !input.placeholder.startsWith("data:image/") ||
+    input.placeholder.length > IMAGE_PLACEHOLDER_MAX_LENGTH ||
+    typeof input.dominant_color !== "string" ||
+    !/^#[0-9a-f]{6}$/.test(input.dominant_color)
+  ) {
+    return null;
+  }
+
+  return { width, height, placeholder: input.placeholder, dominant_color: input.dominant_color };
+}
+
+function parseMetadataText(value: unknown, base: string | null): string | null | undefined {
+  if (value === undefined) {
+    return base;
+  }
+
+  if (value === null || value === "") {
+    return null;
+  }
+
+  return typeof value === "string" && value.trim().length <= METADATA_TEXT_MAX_LENGTH
+    ? value.trim() || null
+    : undefined;
+}
+
+// Tags may be an array or a comma-separated string, as multipart forms send them.
+function parseMetadataTags(value: unknown, base: string[]): string[] | undefined {
+  if (value === undefined) {
+    return base;
+  }
+
+  const rawTags = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(rawTags) || !rawTags.every((tag) => typeof tag === "string")) {
+    return undefined;
+  }
+
+  const tags = Array.from(new Set(rawTags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+  return tags.length <= METADATA_MAX_TAGS && tags.every((tag) => tag.length <= METADATA_TAG_MAX_LENGTH)
+    ? tags
+    : undefined;
+}
+
+// Applies the alt, description and tags fields present in `input` on top of `base`.
+// Returns null when a field is invalid.
+function parseAssetMetadata(input: Record<string, unknown>, base: AssetMetadata): AssetMetadata | null {
+  const alt = parseMetadataText(input.alt, base.alt);
+  const description = parseMetadataText(input.description, base.description);
+  const tags = parseMetadataTags(input.tags, base.tags);
+  if (alt === undefined || description === undefined || !tags) {
+    return null;
+  }
+
+  return { alt, description, tags };
+}
+
+function hasAssetMetadataFields(input: Record<string, unknown> | undefined): boolean {
+  return input?.alt !== undefined || input?.description !== undefined || input?.tags !== undefined;
+}
+
+function isEmptyAssetMetadata(metadata: AssetMetadata): boolean {
+  return !metadata.alt && !metadata.description && metadata.tags.length === 0;
+}
+
+function metadataManifestKey(repoPath: string): string {
+  return repoPath.slice(`${ASSETS_ROOT_PATH}/`.length);
+}
+
+// Throws on anything it cannot read in full, since writes start from the parsed manifest
+// and would otherwise drop the entries it skipped.
+function parseMetadataManifest(raw: string): AssetMetadataManifest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`${METADATA_MANIFEST_PATH} is not valid JSON.`);
+  }
+
+  const assets = asPlainObject(asPlainObject(parsed)?.assets);
+  if (!assets) {
+    throw new Error(`${METADATA_MANIFEST_PATH} has no assets object.`);
+  }
+
+  const manifest: AssetMetadataManifest = {};
+  for (const [key, value] of Object.entries(assets)) {
+    const input = asPlainObject(value);
+    const metadata = input ? parseAssetMetadata(input, emptyAssetMetadata()) : null;
+    if (!metadata) {
+      throw new Error(`${METADATA_MANIFEST_PATH} has an invalid entry for "${key}".`);
+    }
+    manifest[key] = metadata;
+  }
+  return manifest;
+}
+
+// Reads the metadata manifest as of `ref` through the Git Data API, which unlike the
+// contents API returns files over 1 MB. A missing manifest reads as empty.
+async function readMetadataManifest(
+  octokit: Octokit,
+  selection: RepoSelection,
+  ref = selection.branch,
+): Promise<AssetMetadataManifest> {
+  const [blob] = await getBlobsAt(octokit, selection, [`${ref}:${METADATA_MANIFEST_PATH}`]);
+  if (!blob) {
+    return {};
+  }
+
+  return parseMetadataManifest(await readBlobText(octokit, selection, blob.sha));
+}
+
+async function metadataManifestChange(
+  octokit: Octokit,
+  selection: RepoSelection,
+  manifest: AssetMetadataManifest,
+): Promise<AssetTreeChange> {
+  const assets = Object.fromEntries(Object.entries(manifest).sort(([a], [b]) => a.localeCompare(b)));
+  return {
+    repoPath: METADATA_MANIFEST_PATH,
+    sha: await createAssetBlob(
+      octokit,
+      selection,
+      Buffer.from(`${JSON.stringify({ version: 1, assets }, null, 2)}\n`, "utf8"),
+    ),
+  };
+}
+
+// Reads the manifest at `headSha` and returns it as a change if `editMetadata` changed it.
+async function metadataEditChanges(
+  octokit: Octokit,
+  selection: RepoSelection,
+  headSha: string,
+  editMetadata: MetadataEdit,
+): Promise<AssetTreeChange[]> {
+  const manifest = await readMetadataManifest(octokit, selection, headSha);
+  return editMetadata(manifest) ? [await metadataManifestChange(octokit, selection, manifest)] : [];
+}
+
+// Carries metadata along with files that move in the same commit and drops it for
+// files that are deleted. `moves` pairs source and target repo paths; a null target
+// deletes.
+function metadataMovesEdit(moves: [string, string | null][]): MetadataEdit {
+  return (manifest) => {
+    let changed = false;
+    for (const [sourcePath, targetPath] of moves) {
+      const metadata = manifest[metadataManifestKey(sourcePath)];
+      if (!metadata) {
+        continue;
+      }
+
+      delete manifest[metadataManifestKey(sourcePath)];
+      if (targetPath) {
+        manifest[metadataManifestKey(targetPath)] = metadata;
+      }
+      changed = true;
+    }
+    return changed;
+  };
+}
+
+// Moves the metadata of restored files back from the trash. A restored file without
+// trashed metadata also drops any entry left at its original path, so it does not
+// inherit metadata from an earlier file there. `purgedPaths` lose theirs.
+function restoreTrashMetadataEdit(restoredEntries: TrashEntry[], purgedPaths: string[]): MetadataEdit {
+  const dropPurged = metadataMovesEdit(purgedPaths.map((repoPath): [string, string | null] => [repoPath, null]));
+  return (manifest) => {
+    let changed = dropPurged(manifest);
+    for (const entry of restoredEntries) {
+      const trashKey = metadataManifestKey(entry.repoPath);
+      const metadata = manifest[trashKey];
+      if (metadata) {
+        delete manifest[trashKey];
+        manifest[entry.originalPath] = metadata;
+        changed = true;
+      } else if (manifest[entry.originalPath]) {
+        delete manifest[entry.originalPath];
+        changed = true;
+      }
+    }
+    return changed;
+  };
+}
+
+// Sets or clears the metadata of one asset. Returns false if it was already current.
+function setAssetMetadata(manifest: AssetMetadataManifest, relativePath: string, metadata: AssetMetadata): boolean {
+  if (JSON.stringify(manifest[relativePath] ?? emptyAssetMetadata()) === JSON.stringify(metadata)) {
+    return false;
+  }
+
+  if (isEmptyAssetMetadata(metadata)) {
+    delete manifest[relativePath];
+  } else {
+    manifest[relativePath] = metadata;
+  }
+  return true;
+}
+
+// Image info is kept in one small file per asset blob, named after the blob SHA. It
+// follows the content through moves and the trash without being rewritten, and
+// uploads write it without reading anything.
+function imageInfoRepoPath(assetSha: string): string {
+  return `${IMAGE_INFO_FOLDER}/${assetSha}.json`;
+}
+
+function parseImageInfoRepoPath(repoPath: string): string | null {
+  const match = repoPath.startsWith(`${IMAGE_INFO_FOLDER}/`)
+    ? /^([0-9a-f]{40})\.json$/.exec(repoPath.slice(IMAGE_INFO_FOLDER.length + 1))
+    : null;
+  return match ? match[1] : null;
+}
+
+async function imageInfoChange(
+  octokit: Octokit,
+  selection: RepoSelection,
+  assetSha: string,
+  image: AssetImageInfo,
+): Promise<AssetTreeChange> {
+  return {
+    repoPath: imageInfoRepoPath(assetSha),
+    sha: await createAssetBlob(octokit, selection, Buffer.from(`${JSON.stringify({ version: 1, ...image })}\n`, "utf8")),
+  };
+}
+
+// Reads the image info of the given asset blobs that have it, a batch at a time. Info
+// files are content addressed too, so each is cached for good.
+async function readImageInfos(
+  octokit: Octokit,
+  selection: RepoSelection,
+  imageInfoBlobs: Map<string, string>,
+  assetShas: string[],
+): Promise<Map<string, AssetImageInfo>> {
+  const images = new Map<string, AssetImageInfo>();
+  const pending = Array.from(new Set(assetShas)).filter((sha) => imageInfoBlobs.has(sha));
+
+  for (let start = 0; start < pending.length; start += BLOB_DETAILS_BATCH_SIZE) {
+    await Promise.all(
+      pending.slice(start, start + BLOB_DETAILS_BATCH_SIZE).map(async (assetSha) => {
+        const blobSha = imageInfoBlobs.get(assetSha) as string;
+        const cacheKey = `image-info:${selection.owner}/${selection.repo}:${blobSha}`;
+        let image = await inventoryCache?.get<AssetImageInfo>(cacheKey);
+        if (!image) {
+          const raw = await readBlobText(octokit, selection, blobSha);
+          try {
+            image = parseAssetImageInfo(JSON.parse(raw));
+          } catch {
+            image = null;
+          }
+          if (!image) {
+            return;
+          }
+          await inventoryCache?.set(cacheKey, image);
+        }
+        images.set(assetSha, image);
+      }),
+    );
+  }
+
+  return images;
+}
+
+// Removes the image info of blobs that no file or trash entry holds once `changes`
+// apply. A partial listing cannot tell, so nothing is removed then.
+function staleImageInfoChanges(snapshot: AssetSnapshot, changes: AssetTreeChange[]): AssetTreeChange[] {
+  if (!snapshot.complete) {
+    return [];
+  }
+
+  const changedPaths = new Set(changes.map((change) => change.repoPath));
+  const heldShas = new Set(changes.flatMap((change) => (change.sha ? [change.sha] : [])));
+  for (const entry of [...snapshot.entries, ...snapshot.trashEntries]) {
+    if (!changedPaths.has(entry.repoPath)) {
+      heldShas.add(entry.sha);
+    }
+  }
+
+  return Array.from(snapshot.imageInfoBlobs.keys())
+    .filter((assetSha) => !heldShas.has(assetSha))
+    .map((assetSha) => ({ repoPath: imageInfoRepoPath(assetSha), sha: null }));
+}
+
+function hasAllTags(metadata: AssetMetadata | undefined, tags: string[]): boolean {
+  return metadata != null && tags.every((tag) => metadata.tags.includes(tag));
+}
+
+// Counts how many of the listed files carry each tag, most used first. Manifest entries
+// for files that no longer exist are not counted.
+function countAssetTags(manifest: AssetMetadataManifest, entries: AssetBlobEntry[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const tag of manifest[entry.relativePath]?.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag),
+  );
+}
+
+function isLfsAssetPath(config: GitCdnRepoConfig, relativePath: string): boolean {
+  if (config.lfs.enabled) {
+    return true;
+  }
+
+  const folderPath = parentFolderPath(relativePath);
+  return config.lfs.folders.some((folder) => isDescendantOrSameFolder(folder, folderPath));
+}
+
+// Rewrites the GitCDN-managed block of .gitattributes so git clients treat
+// LFS-mode folders as LFS. Returns null when the file does not need to change.
+function syncGitattributesLfsBlock(current: string | null, config: GitCdnRepoConfig): string | null {
+  const lines = (current ?? "").split("\n");
+  const startIndex = lines.indexOf(GITATTRIBUTES_LFS_BLOCK_START);
+  const endIndex = lines.indexOf(GITATTRIBUTES_LFS_BLOCK_END);
+  const hasBlock = startIndex >= 0 && endIndex > startIndex;
+  const outside = hasBlock ? [...lines.slice(0, startIndex), ...lines.slice(endIndex + 1)] : lines;
+
+  const patterns = config.lfs.enabled
+    ? [`${ASSETS_ROOT_PATH}/**`]
+    : config.lfs.folders.map((folder) => `${joinAssetRepoPath(folder)}/**`);
+  if (patterns.length === 0 && !hasBlock) {
+    return null;
+  }
+  const block =
+    patterns.length > 0
+      ? [
+          GITATTRIBUTES_LFS_BLOCK_START,
+          ...patterns.map((pattern) => `${pattern.replaceAll(" ", "[[:space:]]")} filter=lfs diff=lfs merge=lfs -text`),
+          `${ASSETS_ROOT_PATH}/${GITCDN_META_FOLDER}/** !filter !diff !merge text`,
+          GITATTRIBUTES_LFS_BLOCK_END,
+        ]
+      : [];
+
+  while (outside.length > 0 && !outside[outside.length - 1].trim()) {
+    outside.pop();
+  }
+
+  const nextLines = block.length > 0 ? [...outside, ...(outside.length > 0 ? [""] : []), ...block] : outside;
+  const next = nextLines.length > 0 ? `${nextLines.join("\n")}\n` : "";
+  return next === (current ?? "") ? null : next;
+}
+
+function toLfsPointer(content: Buffer): LfsPointer {
+  return {
+    oid: crypto.createHash("sha256").update(content).digest("hex"),
+    size: content.length,
+  };
+}
+
+function formatLfsPointer(pointer: LfsPointer): string {
+  return `version https://git-lfs.github.com/spec/v1\noid sha256:${pointer.oid}\nsize ${pointer.size}\n`;
+}
+
+function parseLfsPointer(content: string): LfsPointer | null {
+  const match = content.match(
+    /^version https:\/\/git-lfs\.github\.com\/spec\/v1\noid sha256:([a-f0-9]{64})\nsize (\d+)\n?$/,
+  );
+  if (!match) {
+    return null;
+  }
+
+  return { oid: match[1], size: Number.parseInt(match[2], 10) };
+}
+
+// Uploads content to the repository's LFS store through the batch API.
+async function uploadLfsObject(
+  githubToken: string,
+  selection: RepoSelection,
+  content: Buffer,
+): Promise<LfsPointer> {
+  const pointer = toLfsPointer(content);
+  const lfsHeaders = {
+    Accept: "application/vnd.git-lfs+json",
+    "Content-Type": "application/vnd.git-lfs+json",
+    Authorization: `Basic ${Buffer.from(`x-access-token:${githubToken}`).toString("base64")}`,
+  };
+
+  const { data: batchData } = await axios.post(
+    `https://github.com/${selection.owner}/${selection.repo}.git/info/lfs/objects/batch`,
+    {
+      operation: "upload",
+      transfers: ["basic"],
+      objects: [pointer],
+      hash_algo: "sha256",
+    },
+    { headers: lfsHeaders },
+  );
+
+  const lfsObject = batchData?.objects?.[0];
+  if (!lfsObject || lfsObject.error) {
+    throw new Error(`LFS batch upload rejected: ${lfsObject?.error?.message ?? "no object returned"}`);
+  }
+
+  // No actions means the server already has this object.
+  const uploadAction = lfsObject.actions?.upload;
+  if (uploadAction) {
+    await axios.put(uploadAction.href, content, {
+      headers: { "Content-Type": "application/octet-stream", ...(uploadAction.header ?? {}) },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+    });
+  }
+
+  const verifyAction = lfsObject.actions?.verify;
+  if (verifyAction) {
+    await axios.post(verifyAction.href, pointer, {
+      headers: { ...lfsHeaders, ...(verifyAction.header ?? {}) },
+    });
+  }
+
+  return pointer;
+}
+
+// Returns the bytes to commit at `relativePath`: the content itself, or an LFS
+// pointer when the path is in LFS mode.
+async function prepareStoredAssetContent(
+  githubToken: string,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  relativePath: string,
+  content: Buffer,
+): Promise<{ content: Buffer; lfs: boolean }> {
+  if (!isLfsAssetPath(config, relativePath)) {
+    return { content, lfs: false };
+  }
+
+  const pointer = await uploadLfsObject(githubToken, selection, content);
+  return { content: Buffer.from(formatLfsPointer(pointer), "utf8"), lfs: true };
+}
+
+// Replaces LFS pointer blobs with the real object size. Only blobs sized like a
+// pointer file are read, a batch at a time, and their details are cached by blob SHA,
+// so regular assets cost no extra API calls.
+async function resolveLfsPointerEntries(
+  octokit: Octokit,
+  selection: RepoSelection,
+  blobEntries: AssetBlobEntry[],
+): Promise<AssetBlobEntry[]> {
+  const pointerShas = Array.from(
+    new Set(
+      blobEntries
+        .filter((entry) => entry.size >= LFS_POINTER_MIN_BYTES && entry.size <= LFS_POINTER_MAX_BYTES)
+        .map((entry) => entry.sha),
+    ),
+  );
+
+  const details = new Map<string, AssetBlobDetails>();
+  for (let start = 0; start < pointerShas.length; start += BLOB_DETAILS_BATCH_SIZE) {
+    const batch = pointerShas.slice(start, start + BLOB_DETAILS_BATCH_SIZE);
+    const batchDetails = await Promise.all(batch.map((sha) => getAssetBlobDetails(octokit, selection, sha)));
+    batch.forEach((sha, index) => details.set(sha, batchDetails[index]));
+  }
+
+  return blobEntries.map((entry) => {
+    const entryDetails = details.get(entry.sha);
+    return entryDetails?.lfs ? { ...entry, size: entryDetails.size, lfs: true } : entry;
+  });
+}
+
+// Reads width and height from the header of common image formats without decoding
+// the image. Returns nulls for anything else.
+function readImageDimensions(content: Buffer): { width: number | null; height: number | null } {
+  const unknown = { width: null, height: null };
+
+  try {
+    if (content.length >= 24 && content.readUInt32BE(0) === 0x89504e47) {
+      return { width: content.readUInt32BE(16), height: content.readUInt32BE(20) };
+    }
+
+    if (content.length >= 10 && content.toString("latin1", 0, 4) === "GIF8") {
+      return { width: content.readUInt16LE(6), height: content.readUInt16LE(8) };
+    }
+
+    if (content.length >= 26 && content.toString("latin1", 0, 2) === "BM") {
+      return { width: content.readInt32LE(18), height: Math.abs(content.readInt32LE(22)) };
+    }
+
+    if (content.length >= 30 && content.toString("latin1", 0, 4) === "RIFF" && content.toString("latin1", 8, 12) === "WEBP") {
+      switch (content.toString("latin1", 12, 16)) {
+        case "VP8 ":
+          return { width: content.readUInt16LE(26) & 0x3fff, height: content.readUInt16LE(28) & 0x3fff };
+        case "VP8L": {
+          const bits = content.readUInt32LE(21);
+          return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        case "VP8X":
+          return { width: content.readUIntLE(24, 3) + 1, height: content.readUIntLE(27, 3) + 1 };
+        default:
+          return unknown;
+      }
+    }
+
+    if (content.length >= 4 && content[0] === 0xff && content[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 < content.length && content[offset] === 0xff) {
+        const marker = content[offset + 1];
+        // SOF markers carry the frame size. C4, C8 and CC share the range but are not frames.
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: content.readUInt16BE(offset + 7), height: content.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + content.readUInt16BE(offset + 2);
+      }
+      return unknown;
+    }
+
+    // AVIF and HEIF store the size in an "ispe" property box.
+    if (content.length >= 12 && content.toString("latin1", 4, 8) === "ftyp") {
+      const ispe = content.indexOf("ispe", 0, "latin1");
+      return ispe >= 0 && ispe + 16 <= content.length
+        ? { width: content.readUInt32BE(ispe + 8), height: content.readUInt32BE(ispe + 12) }
+        : unknown;
+    }
+
+    const head = content.subarray(0, 4096).toString("utf8");
+    const svgTag = head.match(/<svg\b[^>]*>/i)?.[0];
+    if (svgTag) {
+      const attribute = (name: string) => svgTag.match(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(?:px)?\\s*["']`, "i"))?.[1];
+      const viewBox = svgTag.match(/\sviewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*["']/i);
+      const width = Number(attribute("width") ?? viewBox?.[1]);
+      const height = Number(attribute("height") ?? viewBox?.[2]);
+      return Number.isFinite(width) && Number.isFinite(height) ? { width, height } : unknown;
+    }
+  } catch {
+    // A truncated header reads past the end of the buffer.
+  }
+
+  return unknown;
+}
+
+function toSriHashes(content: Buffer): SriHashes {
+  return {
+    sha256: `sha256-${crypto.createHash("sha256").update(content).digest("base64")}`,
+    sha384: `sha384-${crypto.createHash("sha384").update(content).digest("base64")}`,
+  };
+}
+
+function blobDetailsCacheKey(selection: RepoSelection, sha: string): string {
+  return `blob-details:${selection.owner}/${selection.repo}:${sha}`;
+}
+
+// Uploads already hold the bytes, so their details are cached under the committed
+// blob's SHA instead of downloading it again later. Returns the SRI hashes.
+async function rememberUploadedBlob(
+  selection: RepoSelection,
+  stored: { content: Buffer; lfs: boolean },
+  content: Buffer,
+): Promise<SriHashes> {
+  const details: AssetBlobDetails = {
+    size: content.length,
+    lfs: stored.lfs,
+    integrity: toSriHashes(content),
+    ...readImageDimensions(content),
+  };
+  await inventoryCache?.set(blobDetailsCacheKey(selection, computeGitBlobSha(stored.content)), details);
+  return details.integrity;
+}
+
+// Reads a blob once to get its integrity hashes and image size. Blob SHAs are content
+// addresses, so the result is cached for good. The LFS object itself is not in the
+// repository, so a pointer only yields the sha256 hash its oid already is.
+async function getAssetBlobDetails(
+  octokit: Octokit,
+  selection: RepoSelection,
+  sha: string,
+): Promise<AssetBlobDetails> {
+  const cacheKey = blobDetailsCacheKey(selection, sha);
+  const cached = await inventoryCache?.get<AssetBlobDetails>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const { data: blobData } = await octokit.git.getBlob({
+    owner: selection.owner,
+    repo: selection.repo,
+    file_sha: sha,
+  });
+  const content = Buffer.from(blobData.content, "base64");
+  const pointer =
+    content.length >= LFS_POINTER_MIN_BYTES && content.length <= LFS_POINTER_MAX_BYTES
+      ? parseLfsPointer(content.toString("utf8"))
+      : null;
+
+  const details: AssetBlobDetails = pointer
+    ? {
+        size: pointer.size,
+        lfs: true,
+        integrity: { sha256: `sha256-${Buffer.from(pointer.oid, "hex").toString("base64")}`, sha384: null },
+        width: null,
+        height: null,
+      }
+    : { size: content.length, lfs: false, integrity: toSriHashes(content), ...readImageDimensions(content) };
+  await inventoryCache?.set(cacheKey, details);
+  return details;
+}
+
+async function readBlobText(octokit: Octokit, selection: RepoSelection, sha: string): Promise<string> {
+  const { data: blobData } = await octokit.git.getBlob({
+    owner: selection.owner,
+    repo: selection.repo,
+    file_sha: sha,
+  });
+  return Buffer.from(blobData.content, "base64").toString("utf8");
+}
+
+// Parses a committed assets/manifest.json into its entries keyed by path. Throws when
+// any of it is unreadable, since an update built on it would drop what was skipped.
+function parseCommittedAssetManifest(raw: string): Map<string, { sha: string; details: AssetBlobDetails }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`${ASSET_MANIFEST_PATH} is not valid JSON.`);
+  }
+
+  const assets = asPlainObject(parsed)?.assets;
+  if (!Array.isArray(assets)) {
+    throw new Error(`${ASSET_MANIFEST_PATH} has no assets list.`);
+  }
+
+  const entries = new Map<string, { sha: string; details: AssetBlobDetails }>();
+  for (const value of assets) {
+    const entry = asPlainObject(value);
+    if (!entry || typeof entry.path !== "string" || typeof entry.sha !== "string" || typeof entry.size !== "number") {
+      throw new Error(`${ASSET_MANIFEST_PATH} has an invalid entry.`);
+    }
+
+    const integrity = typeof entry.integrity === "string" ? entry.integrity : null;
+    entries.set(entry.path, {
+      sha: entry.sha,
+      details: {
+        size: entry.size,
+        lfs: entry.storage === "lfs",
+        integrity: {
+          sha256: integrity?.startsWith("sha256-") ? integrity : null,
+          sha384: integrity?.startsWith("sha384-") ? integrity : null,
+        },
+        width: typeof entry.width === "number" ? entry.width : null,
+        height: typeof entry.height === "number" ? entry.height : null,
+      },
+    });
+  }
+  return entries;
+}
+
+// Reads the committed manifest so unchanged blobs can reuse its entries instead of
+// being downloaded again.
+async function readCommittedManifestDetails(
+  octokit: Octokit,
+  selection: RepoSelection,
+  sha: string,
+): Promise<Map<string, AssetBlobDetails>> {
+  const known = new Map<string, AssetBlobDetails>();
+  try {
+    const committedEntries = parseCommittedAssetManifest(await readBlobText(octokit, selection, sha));
+    for (const { sha: blobSha, details } of committedEntries.values()) {
+      known.set(blobSha, details);
+    }
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${ASSET_MANIFEST_PATH} in ${selection.owner}/${selection.repo}.`, error);
+  }
+
+  return known;
+}
+
+function isManifestAssetPath(relativePath: string): boolean {
+  return relativePath !== ASSET_MANIFEST_NAME && fileNameFromPath(relativePath) !== ".gitkeep";
+}
+
+function isManifestAssetEntry(entry: AssetBlobEntry): boolean {
+  return isManifestAssetPath(entry.relativePath);
+}
+
+// Builds manifest entries sorted by path. Pinned URLs are left out when `commitSha`
+// is null, as in the committed manifest, which cannot know its own commit. Blobs in
+// `known` are not looked up; by default it holds the details of the manifest in `entries`.
+async function buildAssetManifestEntries(
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  entries: AssetBlobEntry[],
+  commitSha: string | null,
+  known?: Map<string, AssetBlobDetails>,
+): Promise<AssetManifestEntry[]> {
+  const manifestEntries = entries
+    .filter(isManifestAssetEntry)
+    .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+  if (!known) {
+    const committed = entries.find((entry) => entry.relativePath === ASSET_MANIFEST_NAME);
+    known = committed ? await readCommittedManifestDetails(octokit, selection, committed.sha) : new Map();
+  }
+
+  const result: AssetManifestEntry[] = [];
+  for (let start = 0; start < manifestEntries.length; start += BLOB_DETAILS_BATCH_SIZE) {
+    const batch = manifestEntries.slice(start, start + BLOB_DETAILS_BATCH_SIZE);
+    const details = await Promise.all(
+      batch.map((entry) => known?.get(entry.sha) ?? getAssetBlobDetails(octokit, selection, entry.sha)),
+    );
+
+    batch.forEach((entry, index) => {
+      const { size, lfs, integrity, width, height } = details[index];
+      result.push({
+        path: entry.relativePath,
+        size,
+        sha: entry.sha,
+        storage: lfs ? "lfs" : "git",
+        integrity: integrity.sha384 ?? integrity.sha256,
+        cdn_url: toStoredAssetCdnUrl(selection, config.cdn, entry.repoPath, lfs),
+        ...(commitSha ? { pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, entry.repoPath, lfs) } : {}),
+        width,
+        height,
+      });
+    });
+  }
+
+  return result;
+}
+
+// Returns the change that brings assets/manifest.json in line with `treeSha`, the
+// tree built from `changes` on the `headSha` commit, or null when it is already up to
+// date. Paths that `changes` leaves alone keep their entries from the manifest at
+// `headSha`, so only changed blobs are looked up. Without a committed manifest, as
+// right after it is enabled, the whole tree is listed, and a partial listing throws.
+async function assetManifestChange(
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  headSha: string,
+  treeSha: string,
+  changes: AssetTreeChange[],
+): Promise<AssetTreeChange | null> {
+  const [committed] = await getBlobsAt(octokit, selection, [`${headSha}:${ASSET_MANIFEST_PATH}`]);
+  const entries = new Map<string, AssetBlobEntry>();
+  const known = new Map<string, AssetBlobDetails>();
+
+  if (committed) {
+    const committedEntries = parseCommittedAssetManifest(await readBlobText(octokit, selection, committed.sha));
+    for (const [relativePath, { sha, details }] of committedEntries) {
+      entries.set(relativePath, { repoPath: joinAssetRepoPath(relativePath), relativePath, sha, size: details.size });
+      known.set(sha, details);
+    }
+
+    for (const change of changes) {
+      const relativePath = change.repoPath.startsWith(`${ASSETS_ROOT_PATH}/`)
+        ? normalizeAssetRelativePath(change.repoPath.slice(ASSETS_ROOT_PATH.length + 1))
+        : null;
+      if (!relativePath || !isManifestAssetPath(relativePath)) {
+        continue;
+      }
+
+      if (change.sha) {
+        entries.set(relativePath, { repoPath: change.repoPath, relativePath, sha: change.sha, size: 0 });
+      } else {
+        entries.delete(relativePath);
+      }
+    }
+  } else {
+    const assetsTreeSha = await findAssetsTreeSha(octokit, selection, treeSha);
+    if (!assetsTreeSha) {
+      return null;
+    }
+
+    const listing = await readAssetTree(octokit, selection, assetsTreeSha);
+    if (!listing.complete) {
+      throw new Error(`${selection.owner}/${selection.repo} is too large to list for ${ASSET_MANIFEST_PATH}.`);
+    }
+    for (const entry of listing.entries) {
+      entries.set(entry.relativePath, entry);
+    }
+  }
+
+  const manifest = {
+    version: 1,
+    repo: `${selection.owner}/${selection.repo}`,
+    branch: selection.branch,
+    assets: await buildAssetManifestEntries(octokit, selection, config, Array.from(entries.values()), null, known),
+  };
+  const content = Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+  if (committed?.sha === computeGitBlobSha(content)) {
+    return null;
+  }
+
+  return { repoPath: ASSET_MANIFEST_PATH, sha: await createAssetBlob(octokit, selection, content) };
+}
+
+async function getExistingAssetFile(
+  octokit: Octokit,
+  selection: RepoSelection,
+  repoPath: string,
+): Promise<{ type: "file" | "other"; sha: string; size: number } | null> {
+  try {
+    const { data } = await octokit.repos.getContent({
+      owner: selection.owner,
+      repo: selection.repo,
+      path: repoPath,
+      ref: selection.branch,
+    });
+
+    if (Array.isArray(data) || data.type !== "file") {
+      return { type: "other", sha: "", size: 0 };
+    }
+
+    return { type: "file", sha: data.sha, size: data.size };
+  } catch (error: any) {
+    if (error?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Reads the blob stored at `repoPath` in commit `ref`. LFS pointers report the real
+// object size. Returns null when the path does not hold a file at that commit.
+async function getAssetVersionAtCommit(
+  octokit: Octokit,
+  selection: RepoSelection,
+  repoPath: string,
+  ref: string,
+): Promise<{ sha: string; size: number; lfs: boolean } | null> {
+  try {
+    const { data } = await octokit.repos.getContent({
+      owner: selection.owner,
+      repo: selection.repo,
+      path: repoPath,
+      ref,
+    });
+
+    if (Array.isArray(data) || data.type !== "file") {
+      return null;
+    }
+
+    if (data.size >= LFS_POINTER_MIN_BYTES && data.size <= LFS_POINTER_MAX_BYTES && data.content) {
+      const pointer = parseLfsPointer(Buffer.from(data.content, "base64").toString("utf8"));
+      if (pointer) {
+        return { sha: data.sha, size: pointer.size, lfs: true };
+      }
+    }
+
+    return { sha: data.sha, size: data.size, lfs: false };
+  } catch (error: any) {
+    if (error?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// The SHA of the blob prepareStoredAssetContent commits for `content`, computed
+// without uploading anything.
+function storedBlobSha(config: GitCdnRepoConfig, relativePath: string, content: Buffer): string {
+  return computeGitBlobSha(
+    isLfsAssetPath(config, relativePath) ? Buffer.from(formatLfsPointer(toLfsPointer(content)), "utf8") : content,
+  );
+}
+
+// Looks up the blob each `<ref>:<path>` expression names in one GraphQL query, without
+// downloading any content. Expressions that name no file map to null.
+async function getBlobsAt(
+  octokit: Octokit,
+  selection: RepoSelection,
+  expressions: string[],
+): Promise<({ sha: string; size: number } | null)[]> {
+  if (expressions.length === 0) {
+    return [];
+  }
+
+  const variables: Record<string, string> = { owner: selection.owner, repo: selection.repo };
+  expressions.forEach((expression, index) => {
+    variables[`expression${index}`] = expression;
+  });
+
+  // Objects that are not blobs, such as trees, come back without fields.
+  const data = await octokit.graphql<{
+    repository: Record<string, { oid?: string; byteSize?: number } | null>;
+  }>(
+    `query ($owner: String!, $repo: String!, ${expressions.map((_, index) => `$expression${index}: String!`).join(", ")}) {
+      repository(owner: $owner, name: $repo) {
+        ${expressions
+          .map((_, index) => `blob${index}: object(expression: $expression${index}) { ... on Blob { oid byteSize } }`)
+          .join("\n")}
+      }
+    }`,
+    variables,
+  );
+
+  return expressions.map((_, index) => {
+    const blob = data.repository[`blob${index}`];
+    return blob?.oid && typeof blob.byteSize === "number" ? { sha: blob.oid, size: blob.byteSize } : null;
+  });
+}
+
+// Decides where an upload named `name` lands in `folder` under the overwrite
+// policy. Returns null when the policy forbids writing. A file that already holds
+// `storedSha` is returned as the target whatever the policy, since nothing changes.
+// `companions` names the files written next to the upload, such as its image
+// variants; the policy applies to them as well, and a rename moves them along.
+async function resolveUploadTarget(
+  octokit: Octokit,
+  selection: RepoSelection,
+  folder: string,
+  name: string,
+  policy: OverwritePolicy,
+  options: { storedSha?: string; companions?: (name: string) => string[] } = {},
+): Promise<UploadTarget | null> {
+  const toTarget = (targetName: string): UploadTarget => {
+    const relativePath = folder ? `${folder}/${targetName}` : targetName;
+    return { name: targetName, relativePath, repoPath: joinAssetRepoPath(relativePath), previous: null };
+  };
+
+  const target = toTarget(name);
+  const existing = await getExistingAssetFile(octokit, selection, target.repoPath);
+  if (existing?.type === "file" && existing.sha === options.storedSha) {
+    return { ...target, previous: { sha: existing.sha, size: existing.size } };
+  }
+
+  const companionPaths = (options.companions?.(name) ?? []).map((companion) => toTarget(companion).relativePath);
+  const entries =
+    companionPaths.length > 0 || (existing && policy === "rename") ? await getAssetBlobEntries(octokit, selection) : [];
+  const takenPaths = collectTakenAssetPaths(entries);
+  const takenCompanionPaths = companionPaths.filter((companionPath) => takenPaths.has(companionPath));
+  if (!existing && takenCompanionPaths.length === 0) {
+    return target;
+  }
+
+  if (policy === "replace") {
+    // Only files can be replaced, not folders of the same name.
+    const filePaths = new Set(entries.map((entry) => entry.relativePath));
+    if (existing?.type === "other" || takenCompanionPaths.some((companionPath) => !filePaths.has(companionPath))) {
+      return null;
+    }
+    return { ...target, previous: existing ? { sha: existing.sha, size: existing.size } : null };
+  }
+
+  if (policy === "fail") {
+    return null;
+  }
+
+  return toTarget(pickAvailableAssetName(takenPaths, folder, name, options.companions));
+}
+
+// Finds an asset that already stores these bytes, either as a regular blob or as the
+// LFS pointer that would be committed for them. Both SHAs are computed locally.
+function findDuplicateAsset(blobEntries: AssetBlobEntry[], content: Buffer): DuplicateAsset | null {
+  const gitSha = computeGitBlobSha(content);
+  const pointerSha = computeGitBlobSha(Buffer.from(formatLfsPointer(toLfsPointer(content)), "utf8"));
+
+  const match = blobEntries.find(
+    (entry) =>
+      fileNameFromPath(entry.relativePath) !== ".gitkeep" && (entry.sha === gitSha || entry.sha === pointerSha),
+  );
+  if (!match) {
+    return null;
+  }
+
+  return { relativePath: match.relativePath, repoPath: match.repoPath, lfs: match.sha === pointerSha };
+}
+
+// Describes the existing asset returned in place of an upload of the same bytes.
+function toDuplicateAssetFile(
+  selection: RepoSelection,
+  cdn: CdnSettings,
+  duplicate: DuplicateAsset,
+  commitSha: string,
+  content: Buffer,
+) {
+  return {
+    duplicate: true,
+    name: fileNameFromPath(duplicate.relativePath),
+    path: duplicate.relativePath,
+    folder: parentFolderPath(duplicate.relativePath),
+    storage: duplicate.lfs ? ("lfs" as const) : ("git" as const),
+    cdn_url: toStoredAssetCdnUrl(selection, cdn, duplicate.repoPath, duplicate.lfs),
+    pinned_cdn_url: toPinnedCdnUrl(selection, cdn, commitSha, duplicate.repoPath, duplicate.lfs),
+    integrity: toSriHashes(content),
+  };
+}
+
+function collectTakenAssetPaths(blobEntries: AssetBlobEntry[]): Set<string> {
+  const takenPaths = new Set<string>();
+  for (const entry of blobEntries) {
+    takenPaths.add(entry.relativePath);
+    addFolderWithAncestors(takenPaths, parentFolderPath(entry.relativePath));
+  }
+
+  return takenPaths;
+}
+
+// Picks `name` or the first suffixed name that is free in `folder`, together with
+// every name `companions` derives from it.
+function pickAvailableAssetName(
+  takenPaths: Set<string>,
+  folder: string,
+  name: string,
+  companions?: (name: string) => string[],
+): string {
+  const isAvailable = (candidate: string) =>
+    [candidate, ...(companions?.(candidate) ?? [])].every(
+      (entryName) => !takenPaths.has(folder ? `${folder}/${entryName}` : entryName),
+    );
+  if (isAvailable(name)) {
+    return name;
+  }
+
+  for (let suffix = 1; ; suffix += 1) {
+    const candidate = appendNameSuffix(name, suffix);
+    if (isAvailable(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+function toStoredAssetCdnUrl(
+  selection: RepoSelection,
+  cdn: CdnSettings,
+  repoPath: string,
+  lfs: boolean,
+): string {
+  // CDNs serve the pointer file for LFS objects, so those go through GitHub's media host.
+  return lfs ? toLfsMediaUrl(selection, repoPath) : toCdnUrl(selection, cdn, repoPath);
+}
+
+function toCdnBaseUrl(selection: RepoSelection, cdn: CdnSettings, ref: string): string {
+  return toCdnUrl(selection, pinnableCdnSettings(cdn), `${ASSETS_ROOT_PATH}/`, ref);
+}
+
+// Same URL with the branch swapped for a commit SHA or tag, whose content never changes.
+function toPinnedCdnUrl(
+  selection: RepoSelection,
+  cdn: CdnSettings,
+  ref: string,
+  repoPath: string,
+  lfs: boolean,
+): string {
+  return lfs
+    ? toLfsMediaUrl({ ...selection, branch: ref }, repoPath)
+    : toCdnUrl(selection, pinnableCdnSettings(cdn), repoPath, ref);
+}
+
+// Measures an image for layout: its displayed size, a tiny placeholder and the dominant
+// color. Both come from one small sample so large photos are only decoded once.
+async function describeImage(content: Buffer): Promise<AssetImageInfo | null> {
+  try {
+    const metadata = await sharp(content).metadata();
+    if (!IMAGE_INFO_FORMATS.has(metadata.format)) {
+      return null;
+    }
+
+    const sample = await sharp(content)
+      .rotate()
+      .resize(IMAGE_INFO_SAMPLE_SIZE, IMAGE_INFO_SAMPLE_SIZE, { fit: "inside" })
+      .png()
+      .toBuffer();
+    const [{ dominant }, placeholder] = await Promise.all([
+      sharp(sample).stats(),
+      sharp(sample)
+        .resize(IMAGE_PLACEHOLDER_SIZE, IMAGE_PLACEHOLDER_SIZE, { fit: "inside" })
+        .webp({ quality: 40 })
+        .toBuffer(),
+    ]);
+
+    return {
+      width: metadata.autoOrient.width,
+      height: metadata.autoOrient.height,
+      placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`,
+      dominant_color: `#${[dominant.r, dominant.g, dominant.b].map((value) => value.toString(16).padStart(2, "0")).join("")}`,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// A big-endian TIFF block with the Orientation tag as its only entry.
+function orientationOnlyExif(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write("MM", 0, "latin1");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(0x0112, 10);
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  return tiff;
+}
+
+function stripJpegMetadata(content: Buffer, orientation: number): Buffer {
+  const parts: Buffer[] = [content.subarray(0, 2)];
+  let orientationWritten = orientation <= 1;
+  let offset = 2;
+
+  // Segments up to the start of scan carry all metadata; the image data after it is copied as is.
+  while (offset + 4 <= content.length && content[offset + 1] !== 0xda) {
+    if (content[offset] !== 0xff) {
+      throw new Error("Invalid JPEG segment.");
+    }
+
+    const marker = content[offset + 1];
+    const end = offset + 2 + content.readUInt16BE(offset + 2);
+    // JFIF expects its APP0 segment first, so the orientation goes after it.
+    if (!orientationWritten && marker !== 0xe0) {
+      const exif = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), orientationOnlyExif(orientation)]);
+      const header = Buffer.from([0xff, 0xe1, 0, 0]);
+      header.writeUInt16BE(exif.length + 2, 2);
+      parts.push(header, exif);
+      orientationWritten = true;
+    }
+    if (!JPEG_METADATA_MARKERS.has(marker)) {
+      parts.push(content.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  parts.push(content.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "latin1");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(zlib.crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+  return chunk;
+}
+
+function stripPngMetadata(content: Buffer, orientation: number): Buffer {
+  const parts: Buffer[] = [content.subarray(0, 8)];
+  let orientationWritten = orientation <= 1;
+  let offset = 8;
+
+  while (offset + 12 <= content.length) {
+    const type = content.toString("latin1", offset + 4, offset + 8);
+    const end = offset + content.readUInt32BE(offset) + 12;
+    // eXIf must come before the image data.
+    if (!orientationWritten && type === "IDAT") {
+      parts.push(pngChunk("eXIf", orientationOnlyExif(orientation)));
+      orientationWritten = true;
+    }
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      parts.push(content.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return Buffer.concat(parts);
+}
+
+function stripWebpMetadata(content: Buffer, orientation: number): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= content.length) {
+    const size = content.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (!WEBP_METADATA_CHUNKS.has(content.toString("latin1", offset, offset + 4))) {
+      chunks.push(Buffer.from(content.subarray(offset, end)));
+    }
+    offset = end;
+  }
+
+  // The extended format header flags which metadata chunks exist. Simple files have neither.
+  const extendedHeader = chunks.find((chunk) => chunk.toString("latin1", 0, 4) === "VP8X");
+  if (extendedHeader) {
+    extendedHeader[8] &= ~0x0c;
+    if (orientation > 1) {
+      const exif = orientationOnlyExif(orientation);
+      const chunk = Buffer.alloc(exif.length + 8);
+      chunk.write("EXIF", 0, "latin1");
+      chunk.writeUInt32LE(exif.length, 4);
+      exif.copy(chunk, 8);
+      chunks.push(chunk);
+      extendedHeader[8] |= 0x08;
+    }
+  }
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+// Removes EXIF, XMP, IPTC and text metadata (GPS position, device serials, ...) from
+// JPEG, PNG and WebP files without re-encoding them. The orientation is written back as
+// the only EXIF tag so photos still display upright. Other files are returned as is.
+async function stripImageMetadata(content: Buffer): Promise<Buffer> {
+  let format: string;
+  let orientation: number;
+  try {
+    const metadata = await sharp(content).metadata();
+    format = metadata.format;
+    orientation = metadata.orientation ?? 1;
+  } catch {
+    return content;
+  }
+
+  try {
+    switch (format) {
+      case "jpeg":
+        return stripJpegMetadata(content, orientation);
+      case "png":
+        return stripPngMetadata(content, orientation);
+      case "webp":
+        return stripWebpMetadata(content, orientation);
+      default:
+        return content;
+    }
+  } catch (error) {
+    // A file sharp reads but the segment walk cannot is re-encoded instead, which drops
+    // all metadata after applying the orientation.
+    console.warn("Image metadata strip fell back to re-encoding:", error);
+    return sharp(content).rotate().toBuffer();
+  }
+}
+
+// Re-encodes a still image with the given settings. Returns null when optimization is
+// off, sharp cannot encode the format, or the result is not smaller than the upload.
+async function optimizeImage(content: Buffer, settings: ImageOptimizationSettings): Promise<OptimizedImage | null> {
+  if (!settings.enabled) {
+    return null;
+  }
+
+  let sourceFormat: string;
+  try {
+    const metadata = await sharp(content).metadata();
+    // Re-encoding keeps only the first frame of an animation.
+    if (!IMAGE_OPTIMIZATION_SOURCE_FORMATS.has(metadata.format) || (metadata.pages ?? 1) > 1) {
+      return null;
+    }
+    sourceFormat = metadata.format;
+  } catch {
+    return null;
+  }
+
+  const format = settings.format === "original" ? sourceFormat : settings.format;
+  const quality = settings.quality;
+  // rotate() applies the EXIF orientation, which the re-encoded file would otherwise lose.
+  const pipeline = sharp(content).rotate();
+  const encoded =
+    format === "jpeg"
+      ? pipeline.jpeg({ quality, mozjpeg: true })
+      : format === "png"
+        ? pipeline.png({ quality, palette: quality < 100, compressionLevel: 9 })
+        : format === "webp"
+          ? pipeline.webp({ quality })
+          : format === "avif"
+            ? pipeline.avif({ quality })
+            : pipeline.tiff({ quality });
+  const output = await encoded.toBuffer();
+  if (output.length >= content.length) {
+    return null;
+  }
+
+  return { content: output, format, quality, originalSize: content.length, converted: format !== sourceFormat };
+}
+
+function bytesSaved(optimized: OptimizedImage | null): number {
+  return optimized ? optimized.originalSize - optimized.content.length : 0;
+}
+
+function optimizedAssetName(name: string, optimized: OptimizedImage | null): string {
+  return optimized?.converted ? `${name.replace(/\.[^.]+$/, "")}.${optimized.format}` : name;
+}
+
+// The untouched upload is kept next to `assetName` as <name>.original.<ext>, with
+// the extension `uploadName` had before conversion.
+function keptOriginalName(assetName: string, uploadName: string): string {
+  const extension = extractExtensionFromName(uploadName);
+  const baseName = assetName.replace(/\.[^.]+$/, "");
+  return extension ? `${baseName}.original.${extension}` : `${baseName}.original`;
+}
+
+// Commits the untouched upload next to its optimized file, under keptOriginalName.
+async function storeKeptOriginal(
+  githubToken: string,
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  relativePath: string,
+  uploadName: string,
+  content: Buffer,
+): Promise<StoredUploadFile> {
+  const name = keptOriginalName(fileNameFromPath(relativePath), uploadName);
+  const folder = parentFolderPath(relativePath);
+  const originalPath = folder ? `${folder}/${name}` : name;
+
+  const stored = await prepareStoredAssetContent(githubToken, selection, config, originalPath, content);
+  await rememberUploadedBlob(selection, stored, content);
+  return {
+    name,
+    relativePath: originalPath,
+    repoPath: joinAssetRepoPath(originalPath),
+    sha: await createAssetBlob(octokit, selection, stored.content),
+    lfs: stored.lfs,
+  };
+}
+
+function toOptimizationReport(
+  selection: RepoSelection,
+  cdn: CdnSettings,
+  ref: string,
+  optimized: OptimizedImage,
+  original: StoredUploadFile | null,
+) {
+  return {
+    format: optimized.format,
+    quality: optimized.quality,
+    original_size: optimized.originalSize,
+    original: original
+      ? {
+          name: original.name,
+          path: original.relativePath,
+          cdn_url: toStoredAssetCdnUrl(selection, cdn, original.repoPath, original.lfs),
+          pinned_cdn_url: toPinnedCdnUrl(selection, cdn, ref, original.repoPath, original.lfs),
+        }
+      : null,
+  };
+}
+
+// Picks the widths an image gets variants at. Widths at or above the original's are
+// skipped because upscaling only adds bytes, and anything sharp cannot decode gets none.
+async function planImageVariantWidths(content: Buffer, widths: number[]): Promise<number[]> {
+  if (widths.length === 0) {
+    return [];
+  }
+
+  try {
+    const metadata = await sharp(content).metadata();
+    if (!IMAGE_VARIANT_SOURCE_FORMATS.has(metadata.format)) {
+      return [];
+    }
+    return widths.filter((width) => width < metadata.autoOrient.width);
+  } catch {
+    return [];
+  }
+}
+
+function imageVariantName(assetName: string, width: number): string {
+  return `${assetName.replace(/\.[^.]+$/, "")}@${width}w.webp`;
+}
+
+// Names the files an upload writes next to itself: its image variants and, when
+// `keptUploadName` is set, the kept original.
+function uploadCompanionNames(widths: number[], keptUploadName: string | null): (assetName: string) => string[] {
+  return (assetName) => [
+    ...widths.map((width) => imageVariantName(assetName, width)),
+    ...(keptUploadName ? [keptOriginalName(assetName, keptUploadName)] : []),
+  ];
+}
+
+// Resizes an image to each of the widths planImageVariantWidths picked, as WebP.
+async function generateImageVariants(
+  assetName: string,
+  content: Buffer,
+  widths: number[],
+): Promise<{ width: number; height: number; name: string; content: Buffer }[]> {
+  const variants: { width: number; height: number; name: string; content: Buffer }[] = [];
+  for (const width of widths) {
+    // rotate() applies the EXIF orientation, which the re-encoded variant would otherwise lose.
+    const { data, info } = await sharp(content)
+      .rotate()
+      .resize({ width })
+      .webp({ quality: IMAGE_VARIANT_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    variants.push({ width: info.width, height: info.height, name: imageVariantName(assetName, width), content: data });
+  }
+
+  return variants;
+}
+
+// Generates the variants of an upload next to it and creates their blobs. Their names
+// must have been cleared with resolveUploadTarget or pickAvailableAssetName first.
+async function storeImageVariants(
+  githubToken: string,
+  octokit: Octokit,
+  selection: RepoSelection,
+  config: GitCdnRepoConfig,
+  relativePath: string,
+  content: Buffer,
+  widths: number[],
+): Promise<StoredImageVariant[]> {
+  const folder = parentFolderPath(relativePath);
+  const stored: StoredImageVariant[] = [];
+
+  for (const variant of await generateImageVariants(fileNameFromPath(relativePath), content, widths)) {
+    const variantPath = folder ? `${folder}/${variant.name}` : variant.name;
+    const variantStored = await prepareStoredAssetContent(githubToken, selection, config, variantPath, variant.content);
+    await rememberUploadedBlob(selection, variantStored, variant.content);
+    stored.push({
+      width: variant.width,
+      height: variant.height,
+      name: variant.name,
+      relativePath: variantPath,
+      repoPath: joinAssetRepoPath(variantPath),
+      sha: await createAssetBlob(octokit, selection, variantStored.content),
+      size: variant.content.length,
+      lfs: variantStored.lfs,
+    });
+  }
+
+  return stored;
+}
+
+function toImageVariantFile(selection: RepoSelection, cdn: CdnSettings, ref: string, variant: StoredImageVariant) {
+  return {
+    width: variant.width,
+    height: variant.height,
+    name: variant.name,
+    path: variant.relativePath,
+    size: variant.size,
+    storage: variant.lfs ? ("lfs" as const) : ("git" as const),
+    cdn_url: toStoredAssetCdnUrl(selection, cdn, variant.repoPath, variant.lfs),
+    pinned_cdn_url: toPinnedCdnUrl(selection, cdn, ref, variant.repoPath, variant.lfs),
+  };
+}
+
+// Variants are only linked to their original by name, so they are grouped under the
+// original's path without its extension.
+function parseImageVariantPath(relativePath: string): { key: string; width: number } | null {
+  const match = fileNameFromPath(relativePath).match(IMAGE_VARIANT_NAME_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const folder = parentFolderPath(relativePath);
+  return { key: folder ? `${folder}/${match[1]}` : match[1], width: Number(match[2]) };
+}
+
+function collectImageVariants(blobEntries: AssetBlobEntry[]): Map<string, { width: number; entry: AssetBlobEntry }[]> {
+  const variants = new Map<string, { width: number; entry: AssetBlobEntry }[]>();
+  for (const entry of blobEntries) {
+    const variant = parseImageVariantPath(entry.relativePath);
+    if (!variant) {
+      continue;
+    }
+
+    const group = variants.get(variant.key) ?? [];
+    group.push({ width: variant.width, entry });
+    variants.set(variant.key, group);
+  }
+
+  for (const group of variants.values()) {
+    group.sort((a, b) => a.width - b.width);
+  }
+
+  return variants;
+}
+
+function imageVariantKey(relativePath: string): string {
+  return relativePath.replace(/\.[^./]+$/, "");
+}
+
+// Finds the variants that follow `originals` when they are moved or deleted. Variants
+// another file could claim, such as hero.jpg next to hero.png, are left in place.
+function findImageVariantEntries(
+  blobEntries: AssetBlobEntry[],
+  originals: AssetBlobEntry[],
+): { original: AssetBlobEntry; width: number; entry: AssetBlobEntry }[] {
+  const originalPaths = new Set(originals.map((entry) => entry.relativePath));
+  const claimedKeys = new Set(
+    blobEntries
+      .filter((entry) => !originalPaths.has(entry.relativePath))
+      .map((entry) => imageVariantKey(entry.relativePath)),
+  );
+  const variants = collectImageVariants(blobEntries);
+  const found = new Map<string, { original: AssetBlobEntry; width: number; entry: AssetBlobEntry }>();
+  for (const original of originals) {
+    const key = imageVariantKey(original.relativePath);
+    if (claimedKeys.has(key)) {
+      continue;
+    }
+
+    for (const { width, entry } of variants.get(key) ?? []) {
+      if (!originalPaths.has(entry.relativePath) && !found.has(entry.relativePath)) {
+        found.set(entry.relativePath, { original, width, entry });
+      }
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+// Pairs each file a move takes with its target path, the moved file first. A folder
+// move takes variants along with their folder. A single file brings its variants,
+// renamed after its new name. Returns nothing when the source does not exist.
+function planAssetMoves(
+  blobEntries: AssetBlobEntry[],
+  sourcePath: string,
+  isFolderMove: boolean,
+  destinationFolder: string,
+  newName: string,
+): { entry: AssetBlobEntry; targetRelativePath: string }[] {
+  const sourcePrefix = `${sourcePath}/`;
+  const sourceEntries = blobEntries.filter((entry) =>
+    isFolderMove ? entry.relativePath.startsWith(sourcePrefix) : entry.relativePath === sourcePath,
+  );
+
+  const targetPath = destinationFolder ? `${destinationFolder}/${newName}` : newName;
+  return [
+    ...sourceEntries.map((entry) => ({
+      entry,
+      targetRelativePath: isFolderMove ? `${targetPath}/${entry.relativePath.slice(sourcePrefix.length)}` : targetPath,
+    })),
+    ...(isFolderMove ? [] : findImageVariantEntries(blobEntries, sourceEntries))
+      .map(({ width, entry }) => {
+        const variantName = imageVariantName(newName, width);
+        return {
+          entry,
+          targetRelativePath: destinationFolder ? `${destinationFolder}/${variantName}` : variantName,
+        };
+      })
+      // Changing only the extension keeps the variant names.
+      .filter((move) => move.targetRelativePath !== move.entry.relativePath),
+  ];
+}
+
+function buildAssetInventory(selection: RepoSelection, blobEntries: AssetBlobEntry[]) {
+  const files: AssetFile[] = [];
+  const folderSet = new Set<string>();
+
+  for (const entry of blobEntries) {
+    const fileName = fileNameFromPath(entry.relativePath);
+    const folderPath = parentFolderPath(entry.relativePath);
+    addFolderWithAncestors(folderSet, folderPath);
+
+    if (fileName === ".gitkeep") {
+      continue;
+    }
+
+    files.push({
+      name: fileName,
+      path: entry.relativePath,
+      folder: folderPath,
+      sha: entry.sha,
+      size: entry.size,
+      storage: entry.lfs ? "lfs" : "git",
+      download_url: entry.lfs
+        ? toLfsMediaUrl(selection, entry.repoPath)
+        : toRawGitHubUrl(selection, entry.repoPath),
+    });
+  }
+
+  const folders: AssetFolder[] = Array.from(folderSet)
+    .sort((a, b) => a.localeCompare(b))
+    .map((folderPath) => ({
+      path: folderPath,
+      name: fileNameFromPath(folderPath),
+      parent: parentFolderPath(folderPath) || null,
+    }));
+
+  return { files, folders };
+}
+
+function assetCategory(name: string): AssetCategory {
+  const extension = extractExtensionFromName(name);
+  const category = (Object.keys(ASSET_CATEGORY_EXTENSIONS) as Exclude<AssetCategory, "other">[]).find(
+    (key) => extension && ASSET_CATEGORY_EXTENSIONS[key].includes(extension),
+  );
+  return category ?? "other";
+}
+
+function parseSizeParam(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return null;
+  }
+
+  return typeof value === "string" && /^\d+$/.test(value.trim()) ? Number.parseInt(value, 10) : undefined;
+}
+
+function encodeAssetCursor(key: AssetSortKey): string {
+  return Buffer.from(JSON.stringify(key), "utf8").toString("base64url");
+}
+
+function decodeAssetCursor(value: string): AssetSortKey | null {
+  try {
+    const key = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    return Array.isArray(key) &&
+      key.length === 2 &&
+      (typeof key[0] === "string" || typeof key[0] === "number") &&
+      typeof key[1] === "string"
+      ? [key[0], key[1]]
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Returns null when any parameter is malformed.
+function parseAssetListQuery(query: Request["query"]): AssetListQuery | null {
+  const cursor = typeof query.cursor === "string" && query.cursor ? decodeAssetCursor(query.cursor) : null;
+  const limit = query.limit === undefined ? ASSET_PAGE_DEFAULT_LIMIT : parsePositiveInteger(query.limit);
+  const sort = query.sort === undefined ? "name" : ASSET_SORT_FIELDS.find((field) => field === query.sort);
+  const order = query.order === undefined ? "asc" : query.order === "asc" || query.order === "desc" ? query.order : null;
+  const category =
+    query.type === undefined
+      ? null
+      : query.type === "other" || Object.hasOwn(ASSET_CATEGORY_EXTENSIONS, String(query.type))
+        ? (query.type as AssetCategory)
+        : undefined;
+  const minSize = parseSizeParam(query.min_size);
+  const maxSize = parseSizeParam(query.max_size);
+
+  const tags = query.tags === undefined ? null : typeof query.tags === "string" ? parseMetadataTags(query.tags, []) : undefined;
+
+  let extensions: string[] | null = null;
+  if (query.ext !== undefined) {
+    if (typeof query.ext !== "string") {
+      return null;
+    }
+    extensions = query.ext
+      .split(",")
+      .map((extension) => extension.trim().replace(/^\./, "").toLowerCase())
+      .filter(Boolean);
+  }
+
+  if (
+    (typeof query.cursor === "string" && query.cursor && !cursor) ||
+    !limit ||
+    limit > ASSET_PAGE_MAX_LIMIT ||
+    !sort ||
+    !order ||
+    category === undefined ||
+    minSize === undefined ||
+    maxSize === undefined ||
+    tags === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    cursor,
+    limit,
+    sort,
+    order,
+    extensions,
+    category,
+    minSize,
+    maxSize,
+    search: typeof query.q === "string" && query.q.trim() ? query.q.trim().toLowerCase() : null,
+    tags: tags && tags.length > 0 ? tags : null,
+    recursive: parseBooleanFlag(query.recursive),
+  };
+}
+
+function compareAssetSortKeys(a: AssetSortKey, b: AssetSortKey): number {
+  const primary =
+    typeof a[0] === "number" && typeof b[0] === "number" ? a[0] - b[0] : String(a[0]).localeCompare(String(b[0]));
+  return primary || a[1].localeCompare(b[1]);
+}
+
+function lastCommitCacheKey(selection: RepoSelection, entry: AssetBlobEntry): string {
+  return `last-commit:${selection.owner}/${selection.repo}:${entry.sha}:${entry.repoPath}`;
+}
+
+// Looks up the last commit that touched each file as of `ref`, batching many paths into
+// each GraphQL query and running one batch at a time. Results are cached by path and
+// blob SHA, so they survive commits that leave the file alone.
+async function getAssetLastCommits(
+  octokit: Octokit,
+  selection: RepoSelection,
+  ref: string,
+  entries: AssetBlobEntry[],
+): Promise<Map<string, AssetLastCommit>> {
+  const lastCommits = new Map<string, AssetLastCommit>();
+
+  for (let start = 0; start < entries.length; start += LAST_COMMIT_QUERY_BATCH_SIZE) {
+    const chunk = entries.slice(start, start + LAST_COMMIT_QUERY_BATCH_SIZE);
+    const cached = await Promise.all(
+      chunk.map((entry) => inventoryCache?.get<AssetLastCommit>(lastCommitCacheKey(selection, entry)) ?? null),
+    );
+    const batch: AssetBlobEntry[] = [];
+    chunk.forEach((entry, index) => {
+      const lastCommit = cached[index];
+      if (lastCommit) {
+        lastCommits.set(entry.repoPath, lastCommit);
+      } else {
+        batch.push(entry);
+      }
+    });
+
+    if (batch.length === 0) {
+      continue;
+    }
+
+    const variables: Record<string, string> = { owner: selection.owner, repo: selection.repo, ref };
+    batch.forEach((entry, index) => {
+      variables[`path${index}`] = entry.repoPath;
+    });
+
+    const data = await octokit.graphql<{
+      repository: { object: Record<string, { nodes: LastCommitHistoryNode[] } | undefined> | null };
+    }>(
+      `query ($owner: String!, $repo: String!, $ref: String!, ${batch.map((_, index) => `$path${index}: String!`).join(", ")}) {
+        repository(owner: $owner, name: $repo) {
+          object(expression: $ref) {
+            ... on Commit {
+              ${batch
+                .map(
+                  (_, index) =>
+                    `file${index}: history(first: 1, path: $path${index}) {
+                      nodes { oid committedDate messageHeadline committer { name user { login avatarUrl } } }
+                    }`,
+                )
+                .join("\n")}
+            }
+          }
+        }
+      }`,
+      variables,
+    );
+
+    await Promise.all(
+      batch.map(async (entry, index) => {
+        const commit = data.repository.object?.[`file${index}`]?.nodes[0];
+        if (!commit) {
+          return;
+        }
+
+        const lastCommit: AssetLastCommit = {
+          sha: commit.oid,
+          date: commit.committedDate,
+          message: commit.messageHeadline,
+          committer: {
+            name: commit.committer?.name ?? null,
+            login: commit.committer?.user?.login ?? null,
+            avatar_url: commit.committer?.user?.avatarUrl ?? null,
+          },
+        };
+        lastCommits.set(entry.repoPath, lastCommit);
+        await inventoryCache?.set(lastCommitCacheKey(selection, entry), lastCommit);
+      }),
+    );
+  }
+
+  return lastCommits;
+}
+
+// Filters, sorts and pages the files of a listing. LFS sizes and last commits are
+// only looked up for the files that need them. Returns null when sorting by last
+// commit would need more than MODIFIED_SORT_MAX_FILES lookups.
+async function listAssetPage(
+  octokit: Octokit,
+  selection: RepoSelection,
+  commitSha: string,
+  entries: AssetBlobEntry[],
+  query: AssetListQuery,
+): Promise<{
+  entries: AssetBlobEntry[];
+  lastCommits: Map<string, AssetLastCommit>;
+  total: number;
+  nextCursor: string | null;
+} | null> {
+  let candidates = entries.filter((entry) => {
+    const name = fileNameFromPath(entry.relativePath);
+    if (name === ".gitkeep") {
+      return false;
+    }
+
+    const extension = extractExtensionFromName(name);
+    return (
+      (!query.extensions || (extension != null && query.extensions.includes(extension))) &&
+      (!query.category || assetCategory(name) === query.category) &&
+      (!query.search || name.toLowerCase().includes(query.search))
+    );
+  });
+
+  const needsRealSizes = query.sort === "size" || query.minSize != null || query.maxSize != null;
+  if (needsRealSizes) {
+    candidates = (await resolveLfsPointerEntries(octokit, selection, candidates)).filter(
+      (entry) =>
+        (query.minSize == null || entry.size >= query.minSize) &&
+        (query.maxSize == null || entry.size <= query.maxSize),
+    );
+  }
+
+  if (query.sort === "modified" && candidates.length > MODIFIED_SORT_MAX_FILES) {
+    return null;
+  }
+
+  const lastCommits =
+    query.sort === "modified" ? await getAssetLastCommits(octokit, selection, commitSha, candidates) : null;
+
+  const sortKey = (entry: AssetBlobEntry): AssetSortKey => {
+    switch (query.sort) {
+      case "size":
+        return [entry.size, entry.relativePath];
+      case "modified":
+        return [lastCommits?.get(entry.repoPath)?.date ?? "", entry.relativePath];
+      default:
+        return [fileNameFromPath(entry.relativePath).toLowerCase(), entry.relativePath];
+    }
+  };
+
+  const direction = query.order === "desc" ? -1 : 1;
+  const sorted = candidates
+    .map((entry) => ({ entry, key: sortKey(entry) }))
+    .sort((a, b) => direction * compareAssetSortKeys(a.key, b.key));
+
+  const cursor = query.cursor;
+  const start = cursor ? sorted.findIndex((item) => direction * compareAssetSortKeys(item.key, cursor) > 0) : 0;
+  const page = start < 0 ? [] : sorted.slice(start, start + query.limit);
+  const hasMore = start >= 0 && start + query.limit < sorted.length;
+
+  const pageEntries = page.map((item) => item.entry);
+  return {
+    entries: needsRealSizes ? pageEntries : await resolveLfsPointerEntries(octokit, selection, pageEntries),
+    // Last commits only decorate the page here, so a failed lookup should not fail the listing.
+    lastCommits:
+      lastCommits ??
+      (await getAssetLastCommits(octokit, selection, commitSha, pageEntries).catch((error) => {
+        console.error("Last commit lookup error:", error);
+        return new Map<string, AssetLastCommit>();
+      })),
+    total: sorted.length,
+    nextCursor: hasMore ? encodeAssetCursor(page[page.length - 1].key) : null,
+  };
+}
+
+function toLastCommitFields(lastCommit: AssetLastCommit | undefined) {
+  return {
+    last_modified: lastCommit?.date ?? null,
+    last_commit: lastCommit
+      ? { sha: lastCommit.sha, message: lastCommit.message, committer: lastCommit.committer }
+      : null,
+  };
+}
+
+function parseChunkedUploadId(value: unknown): string | null {
+  if (typeof value !== "string" || !/^upl_[a-f0-9]{24}$/.test(value)) {
+    return null;
+  }
+
+  return value;
+}
+
+function chunkedUploadStateKey(uploadId: string): string {
+  return `${uploadId}/state`;
+}
+
+function chunkedUploadPartKey(uploadId: string, partNumber: number): string {
+  return `${uploadId}/part-${partNumber}`;
+}
+
+function chunkedUploadWarning(size: number): string | null {
+  if (size <= CHUNKED_UPLOAD_SOFT_LIMIT_BYTES) {
+    return null;
+  }
+
+  return `File is larger than ${CHUNKED_UPLOAD_SOFT_LIMIT_BYTES} bytes. GitHub warns about files above 50 MB and rejects files above 100 MB.`;
+}
+
+async function readChunkedUploadState(
+  staging: UploadStagingStore,
+  uploadId: string,
+): Promise<ChunkedUploadState | null> {
+  try {
+    const raw = await staging.get(chunkedUploadStateKey(uploadId));
+    const state = raw ? (JSON.parse(raw.toString("utf8")) as ChunkedUploadState) : null;
+    return !state || Date.now() > state.expires_at ? null : state;
+  } catch {
+    return null;
+  }
+}
+
+async function writeChunkedUploadState(staging: UploadStagingStore, state: ChunkedUploadState) {
+  await staging.set(chunkedUploadStateKey(state.upload_id), Buffer.from(JSON.stringify(state)), state.expires_at);
+}
+
+async function writeChunkedUploadPart(
+  staging: UploadStagingStore,
+  state: ChunkedUploadState,
+  partNumber: number,
+  content: Buffer,
+) {
+  await staging.set(chunkedUploadPartKey(state.upload_id, partNumber), content, state.expires_at);
+}
+
+async function removeChunkedUpload(staging: UploadStagingStore, state: ChunkedUploadState) {
+  await staging.delete(chunkedUploadStateKey(state.upload_id));
+  for (let partNumber = 1; partNumber <= state.part_count; partNumber += 1) {
+    await staging.delete(chunkedUploadPartKey(state.upload_id, partNumber));
+  }
+}
+
+async function listReceivedParts(staging: UploadStagingStore, state: ChunkedUploadState): Promise<number[]> {
+  const received: number[] = [];
+  for (let partNumber = 1; partNumber <= state.part_count; partNumber += 1) {
+    if (await staging.has(chunkedUploadPartKey(state.upload_id, partNumber))) {
+      received.push(partNumber);
+    }
+  }
+
+  return received;
+}
+
+// Joins the parts of a staged upload. Returns null when a part is missing or the
+// result does not match the declared size.
+async function assembleChunkedUpload(staging: UploadStagingStore, state: ChunkedUploadState): Promise<Buffer | null> {
+  const parts: Buffer[] = [];
+  for (let partNumber = 1; partNumber <= state.part_count; partNumber += 1) {
+    const part = await staging.get(chunkedUploadPartKey(state.upload_id, partNumber));
+    if (!part) {
+      return null;
+    }
+    parts.push(part);
+  }
+
+  const content = Buffer.concat(parts);
+  return content.length === state.size ? content : null;
+}
+
+function readSession(req: Request): UserSession | null {
+  const payload = readEncryptedCookie<UserSession>(req, SESSION_COOKIE_NAME);
+  if (!payload) {
+    return null;
+  }
+
+  if (Date.now() > payload.expires_at) {
+    return null;
+  }
+
+  if (typeof payload.github_token !== "string" || !payload.github_token) {
+    return null;
+  }
+
+  return payload;
+}
+
+function writeSession(
+  res: Response,
+  partial: Omit<UserSession, "issued_at" | "expires_at">,
+) {
+  const now = Date.now();
+  const payload: UserSession = {
+    ...partial,
+    issued_at: now,
+    expires_at: now + SESSION_TTL_MS,
+  };
+
+  writeEncryptedCookie(res, SESSION_COOKIE_NAME, payload, SESSION_TTL_MS);
+}
+
+function clearAuthCookies(res: Response) {
+  clearCookie(res, SESSION_COOKIE_NAME);
+  clearCookie(res, OAUTH_STATE_COOKIE_NAME);
+}
+
+function requireSession(req: Request, res: Response): UserSession | null {
+  const session = readSession(req);
+  if (!session) {
+    clearCookie(res, SESSION_COOKIE_NAME);
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+
+  return session;
+}
+
+// Checks the Bearer token against the :appId route parameter. Sends the error
+// response and returns null when the token is missing, invalid or expired.
+function requireIngestApp(req: Request, res: Response): IngestAppTokenPayload | null {
+  const appId = parseIngestAppId(req.params.appId);
+  if (!appId) {
+    res.status(400).json({ error: "Invalid app id." });
+    return null;
+  }
+
+  const bearerToken = parseBearerToken(req);
+  if (!bearerToken) {
+    res.status(401).json({ error: "Missing Bearer token." });
+    return null;
+  }
+
+  const appTokenPayload = decryptPayload<IngestAppTokenPayload>(bearerToken);
+  if (!isIngestAppTokenPayload(appTokenPayload)) {
+    res.status(401).json({ error: "Invalid API app token." });
+    return null;
+  }
+
+  if (appTokenPayload.app_id !== appId) {
+    res.status(401).json({ error: "API app token does not match app id." });
+    return null;
+  }
+
+  if (Date.now() > appTokenPayload.expires_at) {
+    res.status(401).json({ error: "API app token has expired." });
+    return null;
+  }
+
+  return appTokenPayload;
+}
+
+// Lists every asset in `folder` and its subfolders with integrity hashes, image
+// sizes and URLs pinned to the branch head.
+async function buildAssetManifest(
+  octokit: Octokit,
+  selection: RepoSelection,
+  head: BranchHead,
+  folder: string,
+) {
+  const [config, { commitSha, complete, entries }] = await Promise.all([
+    readRepoConfig(octokit, selection),
+    getAssetSnapshot(octokit, selection, head),
+  ]);
+
+  return {
+    version: 1,
+    repo: `${selection.owner}/${selection.repo}`,
+    branch: selection.branch,
+    commit_sha: commitSha,
+    folder,
+    complete,
+    assets: await buildAssetManifestEntries(
+      octokit,
+      selection,
+      config,
+      entries.filter((entry) => isDescendantOrSameFolder(folder, parentFolderPath(entry.relativePath))),
+      commitSha,
+    ),
+  };
+}
+
+// Tags an inventory response with an ETag for the branch head it was built from and
+// answers 304 when the browser already has it. Returns true once a 304 was sent.
+function sendNotModifiedIfFresh(
+  req: Request,
+  res: Response,
+  selection: RepoSelection,
+  head: BranchHead,
+  variant: string,
+): boolean {
+  const digest = crypto
+    .createHash("sha256")
+    .update(JSON.stringify([selection.owner, selection.repo, selection.branch, head.commitSha, variant]))
+    .digest("base64url")
+    .slice(0, 27);
+
+  res.set("ETag", `"${digest}"`);
+  res.set("Cache-Control", "private, no-cache");
+  if (!req.fresh) {
+    return false;
+  }
+
+  res.status(304).end();
+  return true;
+}
+
+// Refuses chunked upload requests when no staging store is configured, so no upload id
+// is handed out that a later request could not find.
+function requireUploadStaging(res: Response): UploadStagingStore | null {
+  if (!uploadStaging) {
+    res.status(501).json({
+      error: "Chunked uploads are disabled on this server. They need an upload staging store shared by every instance.",
+    });
+  }
+
+  return uploadStaging;
+}
+
+// Returns the staged upload when it belongs to this session's user and repository.
+async function findChunkedUpload(
+  staging: UploadStagingStore,
+  uploadId: string,
+  session: UserSession,
+): Promise<ChunkedUploadState | null> {
+  const state = await readChunkedUploadState(staging, uploadId);
+  const selection = getRepoSelection(session);
+  if (
+    !state ||
+    !selection ||
+    state.username !== session.username ||
+    state.owner !== selection.owner ||
+    state.repo !== selection.repo ||
+    state.branch !== selection.branch
+  ) {
+    return null;
+  }
+
+  return state;
+}
+
+async function requireChunkedUpload(
+  req: Request,
+  res: Response,
+  session: UserSession,
+  staging: UploadStagingStore,
+): Promise<ChunkedUploadState | null> {
+  const uploadId = parseChunkedUploadId(req.params.uploadId);
+  if (!uploadId) {
+    res.status(400).json({ error: "Invalid upload id." });
+    return null;
+  }
+
+  const state = await findChunkedUpload(staging, uploadId, session);
+  if (!state) {
+    res.status(404).json({ error: "Upload not found or expired." });
+    return null;
+  }
+
+  return state;
+}
+
+// Shared by DELETE /api/assets and the legacy DELETE /api/assets/:name route.
+async function deleteAssetAndRespond(
+  req: Request,
+  res: Response,
+  session: UserSession,
+  selection: RepoSelection,
+  assetPath: string,
+  sha: string,
+) {
+  const permanent = parseBooleanFlag(req.query.permanent);
+  const octokit = new Octokit({ auth: session.github_token });
+
+  try {
+    const [config, snapshot] = await Promise.all([
+      readRepoConfig(octokit, selection),
+      getAssetSnapshot(octokit, selection),
+    ]);
+    const entry = snapshot.entries.find((candidate) => candidate.relativePath === assetPath);
+    if (!entry) {
+      return res.status(404).json({ error: "Asset not found." });
+    }
+
+    if (entry.sha !== sha) {
+      return res.status(409).json({ error: "The asset changed since it was listed. Refresh and try again." });
+    }
+
+    const { commitSha, trashId } = await deleteAssetEntries(
+      octokit,
+      selection,
+      config,
+      snapshot,
+      [entry],
+      permanent,
+      `${permanent ? "Delete" : "Trash"} ${assetPath} via GitCDN`,
+    );
+
+    res.json({ success: true, trash_id: trashId, commit_sha: commitSha });
+  } catch (error) {
+    console.error("Delete asset error:", error);
+    res.status(500).json({ error: "Delete failed" });
+  }
+}
+
+export type ApiAppOptions = {
+  // Replaces the store selected by INVENTORY_CACHE. Pass null to disable caching.
+  inventoryCache?: InventoryCacheStore | null;
+  // Replaces the store selected by UPLOAD_STAGING. Pass null to disable chunked uploads.
+  uploadStaging?: UploadStagingStore | null;
+};
+
+export function createApiApp(options: ApiAppOptions = {}) {
+  inventoryCache = options.inventoryCache === undefined ? createInventoryCache() : options.inventoryCache;
+  uploadStaging = options.uploadStaging === undefined ? createUploadStaging() : options.uploadStaging;
+  const app = express();
+
+  if (IS_PRODUCTION) {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(express.json({ limit: "15mb" }));
+  const ingestUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: API_APP_ABSOLUTE_MAX_BYTES },
+  });
+
+  app.get("/api/health", (_req, res) => {
+    res.json({
+      ok: true,
+      env: NODE_ENV,
+      configured: {
+        app_url: Boolean(APP_URL),
+        github_client_id: HAS_GITHUB_CLIENT_ID,
+        github_client_secret: HAS_GITHUB_CLIENT_SECRET,
+        session_secret: Boolean(SESSION_SECRET),
+        token_encryption_key: Boolean(TOKEN_ENCRYPTION_KEY),
+      },
+    });
+  });
+
+  app.get("/api/auth/url", (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    if (!ensureGitHubClientConfigured(res)) {
+      return;
+    }
+
+    const state = crypto.randomBytes(24).toString("hex");
+    writeEncryptedCookie(
+      res,
+      OAUTH_STATE_COOKIE_NAME,
+      {
+        state,
+        expires_at: Date.now() + OAUTH_STATE_TTL_MS,
+      } as OAuthState,
+      OAUTH_STATE_TTL_MS,
+    );
+
+    const redirectUri = `${getBaseUrl(req)}/api/auth/callback`;
+    const query = new URLSearchParams({
+      client_id: GITHUB_CLIENT_ID,
+      redirect_uri: redirectUri,
+      scope: "repo,user",
+      state,
+    });
+
+    res.json({ url: `https://github.com/login/oauth/authorize?${query.toString()}` });
+  });
+
+  app.get("/api/auth/callback", async (req, res) => {
+    if (!ensureCryptoConfigured(res) || !ensureGitHubOAuthConfigured(res)) {
+      return;
+    }
+
+    const code = typeof req.query.code === "string" ? req.query.code : "";
+    const state = typeof req.query.state === "string" ? req.query.state : "";
+
+    const oauthState = readEncryptedCookie<OAuthState>(req, OAUTH_STATE_COOKIE_NAME);
+    clearCookie(res, OAUTH_STATE_COOKIE_NAME);
+
+    if (!code || !state) {
+      return res.status(400).send("Missing OAuth code or state.");
+    }
+
+    if (!oauthState || oauthState.state !== state || Date.now() > oauthState.expires_at) {
+      return res.status(400).send("Invalid or expired OAuth state. Please try again.");
+    }
+
+    try {
+      const tokenResponse = await axios.post(
+        "https://github.com/login/oauth/access_token",
+        {
+          client_id: GITHUB_CLIENT_ID,
+          client_secret: GITHUB_CLIENT_SECRET,
+          code,
+          redirect_uri: `${getBaseUrl(req)}/api/auth/callback`,
+        },
+        { headers: { Accept: "application/json" } },
+      );
+
+      const accessToken = tokenResponse.data?.access_token;
+      if (typeof accessToken !== "string" || !accessToken) {
+        throw new Error("No access token received");
+      }
+
+      const octokit = new Octokit({ auth: accessToken });
+      const { data: githubUser } = await octokit.users.getAuthenticated();
+
+      const existingSession = readSession(req);
+
+      writeSession(res, {
+        github_token: accessToken,
+        username: githubUser.login,
+        avatar_url: githubUser.avatar_url,
+        selected_repo: existingSession?.selected_repo ?? null,
+        selected_branch: existingSession?.selected_branch ?? null,
+      });
+
+      res.type("html").send(`
+        <!doctype html>
+        <html>
+          <body>
+            <script>
+              const appOrigin = ${JSON.stringify(getOrigin(req))};
+              if (window.opener) {
+                window.opener.postMessage({ type: "OAUTH_AUTH_SUCCESS" }, appOrigin);
+                window.close();
+              } else {
+                window.location.href = "/";
+              }
+            </script>
+            <p>Authentication successful. This window should close automatically.</p>
+          </body>
+        </html>
+      `);
+    } catch (error) {
+      console.error("Auth error:", error);
+      res.status(500).send("Authentication failed");
+    }
+  });
+
+  app.get("/api/me", (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = readSession(req);
+    if (!session) {
+      clearCookie(res, SESSION_COOKIE_NAME);
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    res.json({
+      username: session.username,
+      avatar_url: session.avatar_url,
+      selected_repo: session.selected_repo,
+      selected_branch: session.selected_branch,
+      chunked_uploads: uploadStaging !== null,
+    });
+  });
+
+  app.post("/api/logout", (_req, res) => {
+    clearAuthCookies(res);
+    res.json({ success: true });
+  });
+
+  app.get("/api/repos", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const { data: repos } = await octokit.repos.listForAuthenticatedUser({
+        sort: "updated",
+        per_page: 100,
+      });
+
+      res.json(
+        repos.map((repo) => ({
+          full_name: repo.full_name,
+          name: repo.name,
+          private: repo.private,
+          default_branch: repo.default_branch,
+        })),
+      );
+    } catch {
+      res.status(500).json({ error: "Failed to fetch repos" });
+    }
+  });
+
+  app.post("/api/select-repo", (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const parsedRepo = parseRepoFullName(req.body?.repo);
+    if (!parsedRepo) {
+      return res.status(400).json({ error: "Repository must be in owner/repo format." });
+    }
+
+    const branchInput = req.body?.branch;
+    const branch = branchInput == null ? "main" : parseBranchName(branchInput);
+    if (!branch) {
+      return res.status(400).json({ error: "Invalid branch name." });
+    }
+
+    writeSession(res, {
+      ...session,
+      selected_repo: `${parsedRepo.owner}/${parsedRepo.repo}`,
+      selected_branch: branch,
+    });
+
+    res.json({ success: true });
+  });
+
+  app.post("/api/apps", (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before creating an API app." });
+    }
+
+    const providedName = req.body?.name;
+    const appName = providedName == null ? "GitCDN Ingest App" : sanitizeAppName(providedName);
+    if (!appName) {
+      return res.status(400).json({ error: "Invalid app name." });
+    }
+
+    const baseFolder = normalizeFolderPath(req.body?.folder);
+    if (baseFolder == null) {
+      return res.status(400).json({ error: "Invalid folder path." });
+    }
+
+    const allowedExtensions = parseAllowedExtensions(req.body?.allowed_extensions);
+    if (!allowedExtensions) {
+      return res.status(400).json({ error: "allowed_extensions must be an array of valid extensions." });
+    }
+
+    const maxBytes = parseApiAppMaxBytes(req.body?.max_bytes);
+    if (!maxBytes) {
+      return res
+        .status(400)
+        .json({ error: `max_bytes must be a positive integer up to ${API_APP_ABSOLUTE_MAX_BYTES}.` });
+    }
+
+    const ttlDays = parseApiAppTtlDays(req.body?.expires_in_days);
+    if (!ttlDays) {
+      return res
+        .status(400)
+        .json({ error: `expires_in_days must be a positive integer up to ${API_APP_MAX_TTL_DAYS}.` });
+    }
+
+    const overwritePolicy = parseOverwritePolicy(req.body?.overwrite_policy, "fail");
+    if (!overwritePolicy) {
+      return res
+        .status(400)
+        .json({ error: `overwrite_policy must be one of: ${OVERWRITE_POLICIES.join(", ")}.` });
+    }
+
+    const variantWidths = parseImageVariantWidths(req.body?.variant_widths);
+    if (!variantWidths) {
+      return res.status(400).json({ error: `variant_${IMAGE_VARIANT_WIDTHS_ERROR}` });
+    }
+    if (variantWidths.length > 0 && allowedExtensions.length > 0 && !allowedExtensions.includes("webp")) {
+      return res.status(400).json({ error: "variant_widths needs webp in allowed_extensions." });
+    }
+
+    // Sending optimization settings turns optimization on unless they say otherwise.
+    const optimization =
+      req.body?.optimization == null
+        ? null
+        : parseImageOptimizationSettings(req.body.optimization, { ...defaultImageOptimization(), enabled: true });
+    if (req.body?.optimization != null && !optimization) {
+      return res.status(400).json({
+        error: `optimization takes enabled, quality (1-100), format (${IMAGE_OUTPUT_FORMATS.join(", ")}) and keep_original.`,
+      });
+    }
+    if (
+      optimization &&
+      optimization.format !== "original" &&
+      allowedExtensions.length > 0 &&
+      !allowedExtensions.includes(optimization.format)
+    ) {
+      return res.status(400).json({ error: `optimization.format needs ${optimization.format} in allowed_extensions.` });
+    }
+
+    const stripMetadata = req.body?.strip_metadata ?? true;
+    if (typeof stripMetadata !== "boolean") {
+      return res.status(400).json({ error: "strip_metadata must be a boolean." });
+    }
+
+    const now = Date.now();
+    const expiresAt = now + ttlDays * 24 * 60 * 60 * 1000;
+    const appId = `app_${crypto.randomBytes(8).toString("hex")}`;
+    const appTokenPayload: IngestAppTokenPayload = {
+      version: 1,
+      app_id: appId,
+      app_name: appName,
+      github_token: session.github_token,
+      owner: selection.owner,
+      repo: selection.repo,
+      branch: selection.branch,
+      base_folder: baseFolder,
+      allowed_extensions: allowedExtensions,
+      max_bytes: maxBytes,
+      overwrite_policy: overwritePolicy,
+      variant_widths: variantWidths,
+      ...(optimization ? { optimization } : {}),
+      strip_metadata: stripMetadata,
+      issued_at: now,
+      expires_at: expiresAt,
+    };
+
+    res.status(201).json({
+      app_id: appId,
+      app_name: appName,
+      token_type: "Bearer",
+      app_secret: encryptPayload(appTokenPayload),
+      ingest_url: `${getBaseUrl(req)}/api/ingest/${appId}`,
+      repo: `${selection.owner}/${selection.repo}`,
+      branch: selection.branch,
+      base_folder: baseFolder,
+      allowed_extensions: allowedExtensions,
+      max_bytes: maxBytes,
+      overwrite_policy: overwritePolicy,
+      variant_widths: variantWidths,
+      optimization,
+      strip_metadata: stripMetadata,
+      issued_at: now,
+      expires_at: expiresAt,
+    });
+  });
+
+  app.post("/api/ingest/:appId", (req, res) => {
+    ingestUpload.single("file")(req, res, async (uploadError: unknown) => {
+      if (uploadError) {
+        if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
+          return res.status(413).json({
+            error: `File exceeds the absolute API app upload limit of ${API_APP_ABSOLUTE_MAX_BYTES} bytes.`,
+          });
+        }
+
+        console.error("Ingest upload parser error:", uploadError);
+        return res.status(400).json({ error: "Invalid file upload payload." });
+      }
+
+      const appTokenPayload = requireIngestApp(req, res);
+      if (!appTokenPayload) {
+        return;
+      }
+
+      const targetFolder = resolveIngestFolder(req.body?.folder, appTokenPayload.base_folder);
+      if (targetFolder == null) {
+        return res.status(400).json({ error: "Invalid folder path or outside API app scope." });
+      }
+
+      const uploadedFile = req.file;
+      const requestedNameInput = req.body?.filename ?? req.body?.name;
+      const requestedName = requestedNameInput == null ? null : sanitizeAssetName(requestedNameInput);
+      if (requestedNameInput != null && !requestedName) {
+        return res.status(400).json({ error: "Invalid filename." });
+      }
+
+      const originalName = sanitizeAssetName(uploadedFile?.originalname) ?? requestedName;
+      const mimeType =
+        (typeof uploadedFile?.mimetype === "string" ? uploadedFile.mimetype.toLowerCase() : null) ??
+        extractMimeType(req.body?.content);
+
+      const rawBase64Content = uploadedFile
+        ? uploadedFile.buffer.toString("base64")
+        : normalizeRawBase64Payload(req.body?.content);
+      if (!rawBase64Content) {
+        return res
+          .status(400)
+          .json({ error: "Missing file content. Send multipart 'file' or JSON/base64 content." });
+      }
+
+      const buffer = Buffer.from(rawBase64Content, "base64");
+      if (!buffer.length) {
+        return res.status(400).json({ error: "Invalid or empty file payload." });
+      }
+
+      if (buffer.length > appTokenPayload.max_bytes) {
+        return res.status(413).json({
+          error: `File exceeds API app limit of ${appTokenPayload.max_bytes} bytes.`,
+        });
+      }
+
+      const inferredExtension = inferAssetExtension(originalName, mimeType, req.body?.content);
+      if (appTokenPayload.allowed_extensions.length > 0) {
+        if (!inferredExtension || !appTokenPayload.allowed_extensions.includes(inferredExtension)) {
+          return res.status(415).json({
+            error: `File type is not allowed. Allowed extensions: ${appTokenPayload.allowed_extensions.join(
+              ", ",
+            )}`,
+          });
+        }
+      }
+
+      // A request may narrow the app's overwrite policy but only replace when the app allows it.
+      const appOverwritePolicy = appTokenPayload.overwrite_policy ?? "fail";
+      const requestedPolicy = parseOverwritePolicy(req.body?.overwrite, appOverwritePolicy);
+      if (!requestedPolicy) {
+        return res.status(400).json({ error: `overwrite must be one of: ${OVERWRITE_POLICIES.join(", ")}.` });
+      }
+
+      if (requestedPolicy === "replace" && appOverwritePolicy !== "replace") {
+        return res.status(403).json({ error: "This API app is not allowed to replace existing files." });
+      }
+
+      const hasMetadata = hasAssetMetadataFields(req.body);
+      if (hasMetadata && !parseAssetMetadata(req.body, emptyAssetMetadata())) {
+        return res.status(400).json({ error: METADATA_INVALID_ERROR });
+      }
+
+      const variantWidths =
+        req.body?.widths == null ? appTokenPayload.variant_widths ?? [] : parseImageVariantWidths(req.body.widths);
+      if (!variantWidths) {
+        return res.status(400).json({ error: IMAGE_VARIANT_WIDTHS_ERROR });
+      }
+      if (
+        variantWidths.length > 0 &&
+        appTokenPayload.allowed_extensions.length > 0 &&
+        !appTokenPayload.allowed_extensions.includes("webp")
+      ) {
+        return res.status(415).json({ error: "Image variants are WebP files, which this API app does not allow." });
+      }
+
+      const selection: RepoSelection = {
+        owner: appTokenPayload.owner,
+        repo: appTokenPayload.repo,
+        branch: appTokenPayload.branch,
+      };
+
+      const octokit = new Octokit({ auth: appTokenPayload.github_token });
+
+      try {
+        const config = await readRepoConfig(octokit, selection);
+        const uploadContent = appTokenPayload.strip_metadata === false ? buffer : await stripImageMetadata(buffer);
+        const appOptimization = appTokenPayload.optimization ?? resolveImageOptimization(config, targetFolder);
+        // Converted files must still have an extension the app allows.
+        const optimizationSettings: ImageOptimizationSettings =
+          appOptimization.format !== "original" &&
+          appTokenPayload.allowed_extensions.length > 0 &&
+          !appTokenPayload.allowed_extensions.includes(appOptimization.format)
+            ? { ...appOptimization, format: "original" }
+            : appOptimization;
+        // A requested filename is kept as is, so its format is not converted.
+        const optimized = await optimizeImage(
+          uploadContent,
+          requestedName ? { ...optimizationSettings, format: "original" } : optimizationSettings,
+        );
+        const committedContent = optimized?.content ?? uploadContent;
+
+        if (!parseBooleanFlag(req.body?.force) && requestedPolicy !== "replace") {
+          const snapshot = await getAssetSnapshot(octokit, selection);
+          // Files outside the app's folder are not the app's to reveal.
+          const duplicate = findDuplicateAsset(
+            snapshot.entries.filter((entry) =>
+              isDescendantOrSameFolder(appTokenPayload.base_folder, parentFolderPath(entry.relativePath)),
+            ),
+            committedContent,
+          );
+          if (duplicate) {
+            return res.json({
+              success: true,
+              ...toDuplicateAssetFile(selection, config.cdn, duplicate, snapshot.commitSha, committedContent),
+              app_id: appTokenPayload.app_id,
+              app_name: appTokenPayload.app_name,
+              repo: `${selection.owner}/${selection.repo}`,
+              branch: selection.branch,
+              size: committedContent.length,
+              commit_sha: snapshot.commitSha,
+            });
+          }
+        }
+
+        let assetName = requestedName;
+        let overwritePolicy = requestedPolicy;
+        if (!assetName) {
+          assetName = generateAssetName(
+            config.naming.strategy,
+            originalName,
+            committedContent,
+            req.body?.content,
+            mimeType,
+          );
+          // Hash names only collide with identical bytes, which count as unchanged under
+          // any policy, so the app's own policy still decides about anything else.
+          const collisionPolicy = namingCollisionPolicy(config.naming.strategy);
+          if (req.body?.overwrite == null && appOverwritePolicy === "fail" && collisionPolicy !== "replace") {
+            overwritePolicy = collisionPolicy;
+          }
+        } else if (!extractExtensionFromName(assetName) && inferredExtension) {
+          assetName = `${assetName}.${inferredExtension}`;
+        }
+
+        const targetName = optimizedAssetName(assetName, optimized);
+        const plannedWidths = await planImageVariantWidths(uploadContent, variantWidths);
+        const target = await resolveUploadTarget(octokit, selection, targetFolder, targetName, overwritePolicy, {
+          storedSha: storedBlobSha(
+            config,
+            targetFolder ? `${targetFolder}/${targetName}` : targetName,
+            committedContent,
+          ),
+          companions: uploadCompanionNames(
+            plannedWidths,
+            optimized && optimizationSettings.keep_original ? assetName : null,
+          ),
+        });
+        if (!target) {
+          return res.status(409).json({ error: "A file already exists at the target path." });
+        }
+
+        const commitMessage =
+          typeof req.body?.message === "string" && req.body.message.trim()
+            ? req.body.message.trim()
+            : `${target.previous ? "Replace" : "Upload"} ${target.name} via ${appTokenPayload.app_name}`;
+
+        const stored = await prepareStoredAssetContent(
+          appTokenPayload.github_token,
+          selection,
+          config,
+          target.relativePath,
+          committedContent,
+        );
+        const unchanged = target.previous?.sha === computeGitBlobSha(stored.content);
+        const variants = unchanged
+          ? []
+          : await storeImageVariants(
+              appTokenPayload.github_token,
+              octokit,
+              selection,
+              config,
+              target.relativePath,
+              uploadContent,
+              plannedWidths,
+            );
+        const keptOriginal =
+          optimized && optimizationSettings.keep_original && !unchanged
+            ? await storeKeptOriginal(
+                appTokenPayload.github_token,
+                octokit,
+                selection,
+                config,
+                target.relativePath,
+                assetName,
+                uploadContent,
+              )
+            : null;
+        const extraChanges: AssetTreeChange[] = keptOriginal ? [...variants, keptOriginal] : [...variants];
+        const imageInfo = await describeImage(committedContent);
+        if (imageInfo && !unchanged) {
+          extraChanges.push(await imageInfoChange(octokit, selection, computeGitBlobSha(stored.content), imageInfo));
+        }
+
+        // Omitted metadata fields keep the values of the file being replaced, as found at
+        // the head the commit builds on.
+        let metadata: AssetMetadata | null = null;
+        const editMetadata: MetadataEdit | null = hasMetadata
+          ? (manifest) => {
+              const current = manifest[target.relativePath] ?? emptyAssetMetadata();
+              metadata = parseAssetMetadata(req.body, current) ?? current;
+              return setAssetMetadata(manifest, target.relativePath, metadata);
+            }
+          : null;
+
+        let commitSha: string;
+        if (editMetadata) {
+          // The manifest lands in the same commit as the file.
+          commitSha = unchanged
+            ? ((await commitMetadataEdit(octokit, selection, editMetadata, commitMessage, config)) ??
+              (await getBranchHeadSha(octokit, selection)))
+            : await commitAssetTreeChanges(
+                octokit,
+                selection,
+                [{ repoPath: target.repoPath, sha: await createAssetBlob(octokit, selection, stored.content) }, ...extraChanges],
+                commitMessage,
+                config,
+                editMetadata,
+              );
+        } else if (unchanged) {
+          commitSha = await getBranchHeadSha(octokit, selection);
+        } else if (extraChanges.length > 0) {
+          commitSha = await commitAssetTreeChanges(
+            octokit,
+            selection,
+            [{ repoPath: target.repoPath, sha: await createAssetBlob(octokit, selection, stored.content) }, ...extraChanges],
+            commitMessage,
+            config,
+          );
+        } else {
+          commitSha = await commitAssetFile(
+            octokit,
+            selection,
+            config,
+            target.repoPath,
+            stored.content,
+            commitMessage,
+            target.previous?.sha,
+          );
+        }
+
+        return res.json({
+          success: true,
+          app_id: appTokenPayload.app_id,
+          app_name: appTokenPayload.app_name,
+          repo: `${selection.owner}/${selection.repo}`,
+          branch: selection.branch,
+          duplicate: false,
+          name: target.name,
+          path: target.relativePath,
+          folder: targetFolder,
+          size: committedContent.length,
+          bytes_saved: bytesSaved(optimized),
+          metadata_stripped: !uploadContent.equals(buffer),
+          storage: stored.lfs ? "lfs" : "git",
+          replaced: Boolean(target.previous) && !unchanged,
+          unchanged,
+          previous_version: target.previous,
+          commit_sha: commitSha,
+          cdn_url: toStoredAssetCdnUrl(selection, config.cdn, target.repoPath, stored.lfs),
+          pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, target.repoPath, stored.lfs),
+          integrity: await rememberUploadedBlob(selection, stored, committedContent),
+          variants: variants.map((variant) => toImageVariantFile(selection, config.cdn, commitSha, variant)),
+          optimization: optimized
+            ? toOptimizationReport(selection, config.cdn, commitSha, optimized, keptOriginal)
+            : null,
+          image: imageInfo,
+          ...(metadata ? { metadata } : {}),
+          download_url: stored.lfs
+            ? toLfsMediaUrl(selection, target.repoPath)
+            : toRawGitHubUrl(selection, target.repoPath),
+        });
+      } catch (error: any) {
+        if (isBranchMovedError(error)) {
+          return res.status(409).json({ error: BRANCH_MOVED_ERROR });
+        }
+
+        if (error?.status === 409 || error?.status === 422) {
+          return res.status(409).json({ error: "A file already exists at the target path." });
+        }
+
+        console.error("API ingest upload error:", error);
+        return res.status(500).json({ error: "Programmatic upload failed." });
+      }
+    });
+  });
+
+  app.get("/api/config", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before reading its settings." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      res.json(await readRepoConfig(octokit, selection));
+    } catch (error) {
+      console.error("Read config error:", error);
+      res.status(500).json({ error: "Failed to read repository settings." });
+    }
+  });
+
+  app.put("/api/config", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before changing its settings." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const currentConfig = await readRepoConfig(octokit, selection);
+      const nextConfig = parseRepoConfig(req.body, currentConfig);
+      if (!nextConfig) {
+        return res.status(400).json({ error: "Invalid repository settings." });
+      }
+
+      // The first committed manifest lists every asset, which a partial listing cannot.
+      if (nextConfig.manifest.enabled && !currentConfig.manifest.enabled) {
+        const { complete } = await getAssetSnapshot(octokit, selection);
+        if (!complete) {
+          return res.status(422).json({ error: "The repository is too large to keep a committed manifest." });
+        }
+      }
+
+      const changes: AssetTreeChange[] = [
+        {
+          repoPath: REPO_CONFIG_PATH,
+          sha: await createAssetBlob(
+            octokit,
+            selection,
+            Buffer.from(`${JSON.stringify(nextConfig, null, 2)}\n`, "utf8"),
+          ),
+        },
+      ];
+
+      const gitattributes = syncGitattributesLfsBlock(
+        await readRepoTextFile(octokit, selection, GITATTRIBUTES_PATH),
+        nextConfig,
+      );
+      if (gitattributes != null) {
+        changes.push({
+          repoPath: GITATTRIBUTES_PATH,
+          sha: await createAssetBlob(octokit, selection, Buffer.from(gitattributes, "utf8")),
+        });
+      }
+
+      const commitSha = await commitAssetTreeChanges(
+        octokit,
+        selection,
+        changes,
+        "Update settings via GitCDN",
+        nextConfig,
+      );
+
+      res.json({ success: true, config: nextConfig, commit_sha: commitSha });
+    } catch (error) {
+      console.error("Update config error:", error);
+      res.status(500).json({ error: "Failed to update repository settings." });
+    }
+  });
+
+  app.get("/api/tags", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.json({ tags: [] });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const config = await readRepoConfig(octokit, selection);
+      const { data: tagsData } = await octokit.repos.listTags({
+        owner: selection.owner,
+        repo: selection.repo,
+        per_page: 30,
+      });
+
+      res.json({
+        tags: tagsData.map((tag) => ({
+          name: tag.name,
+          commit_sha: tag.commit.sha,
+          cdn_base_url: toCdnBaseUrl(selection, config.cdn, tag.name),
+        })),
+      });
+    } catch (error) {
+      console.error("List tags error:", error);
+      res.status(500).json({ error: "Failed to fetch tags." });
+    }
+  });
+
+  app.post("/api/tags", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before creating tags." });
+    }
+
+    // Tag names follow the same ref-name rules as branches.
+    const requestedTag = req.body?.tag == null ? null : parseBranchName(req.body.tag);
+    if (req.body?.tag != null && !requestedTag) {
+      return res.status(400).json({ error: "Invalid tag name." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const config = await readRepoConfig(octokit, selection);
+      const headSha = await getBranchHeadSha(octokit, selection);
+
+      let tag = requestedTag;
+      if (!tag) {
+        // Several releases on one day become v2026.10.19, v2026.10.19.1, ...
+        const baseTag = defaultReleaseTagName(new Date());
+        const { data: matchingRefs } = await octokit.git.listMatchingRefs({
+          owner: selection.owner,
+          repo: selection.repo,
+          ref: `tags/${baseTag}`,
+        });
+        const takenTags = new Set(matchingRefs.map((ref) => ref.ref.replace(/^refs\/tags\//, "")));
+
+        tag = baseTag;
+        for (let suffix = 1; takenTags.has(tag); suffix += 1) {
+          tag = `${baseTag}.${suffix}`;
+        }
+      }
+
+      await octokit.git.createRef({
+        owner: selection.owner,
+        repo: selection.repo,
+        ref: `refs/tags/${tag}`,
+        sha: headSha,
+      });
+
+      res.status(201).json({
+        success: true,
+        tag,
+        commit_sha: headSha,
+        cdn_base_url: toCdnBaseUrl(selection, config.cdn, tag),
+      });
+    } catch (error: any) {
+      if (error?.status === 422) {
+        return res.status(409).json({ error: "A tag with this name already exists." });
+      }
+
+      console.error("Create tag error:", error);
+      res.status(500).json({ error: "Failed to create tag." });
+    }
+  });
+
+  app.get("/api/assets", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.json({
+        current_folder: "",
+        folders: [],
+        files: [],
+        all_folders: [],
+      });
+    }
+
+    const requestedFolder = normalizeFolderPath(req.query.folder);
+    if (requestedFolder == null) {
+      return res.status(400).json({ error: "Invalid folder path." });
+    }
+
+    const listQuery = parseAssetListQuery(req.query);
+    if (!listQuery) {
+      return res.status(400).json({
+        error: `Invalid listing parameters. sort must be one of ${ASSET_SORT_FIELDS.join(", ")}, order asc or desc, limit at most ${ASSET_PAGE_MAX_LIMIT}.`,
+      });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const head = await getBranchHead(octokit, selection);
+      const variant = `assets:${requestedFolder}:${new URLSearchParams(req.query as Record<string, string>).toString()}`;
+      if (sendNotModifiedIfFresh(req, res, selection, head, variant)) {
+        return;
+      }
+
+      const [config, metadataManifest, { commitSha, complete, entries: blobEntries, imageInfoBlobs }] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        // The listing only shows metadata, so it stays usable while the manifest is broken.
+        readMetadataManifest(octokit, selection, head.commitSha).catch((error): AssetMetadataManifest => {
+          console.warn(`Listing ${selection.owner}/${selection.repo} without metadata:`, error);
+          return {};
+        }),
+        getAssetSnapshot(octokit, selection, head),
+      ]);
+      const page = await listAssetPage(
+        octokit,
+        selection,
+        commitSha,
+        blobEntries.filter(
+          (entry) =>
+            (listQuery.recursive
+              ? isDescendantOrSameFolder(requestedFolder, parentFolderPath(entry.relativePath))
+              : parentFolderPath(entry.relativePath) === requestedFolder) &&
+            (!listQuery.tags || hasAllTags(metadataManifest[entry.relativePath], listQuery.tags)),
+        ),
+        listQuery,
+      );
+      if (!page) {
+        return res.status(422).json({
+          error: `Sorting by last modified is limited to ${MODIFIED_SORT_MAX_FILES} files. Narrow the folder or filters.`,
+        });
+      }
+
+      const inventory = buildAssetInventory(selection, blobEntries);
+      const folderInventory = buildAssetInventory(selection, page.entries);
+      const imageInfos = await readImageInfos(
+        octokit,
+        selection,
+        imageInfoBlobs,
+        page.entries.map((entry) => entry.sha),
+      ).catch((error) => {
+        console.error("Image info lookup error:", error);
+        return new Map<string, AssetImageInfo>();
+      });
+      const imageVariants = collectImageVariants(blobEntries);
+      // Variants are listed with their original, so only those blobs are checked for LFS pointers.
+      const lfsVariantPaths = new Set(
+        (
+          await resolveLfsPointerEntries(
+            octokit,
+            selection,
+            page.entries.flatMap((entry) =>
+              (imageVariants.get(imageVariantKey(entry.relativePath)) ?? []).map((variant) => variant.entry),
+            ),
+          )
+        )
+          .filter((entry) => entry.lfs)
+          .map((entry) => entry.relativePath),
+      );
+
+      const childFolders = inventory.folders
+        .filter((folder) => (folder.parent ?? "") === requestedFolder)
+        .map((folder) => ({ name: folder.name, path: folder.path }));
+
+      const folderFiles = folderInventory.files.map((file) => {
+        const repoPath = joinAssetRepoPath(file.path);
+        const lfs = file.storage === "lfs";
+        return {
+          ...file,
+          cdn_url: toStoredAssetCdnUrl(selection, config.cdn, repoPath, lfs),
+          pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, repoPath, lfs),
+          ...toLastCommitFields(page.lastCommits.get(repoPath)),
+          metadata: metadataManifest[file.path] ?? emptyAssetMetadata(),
+          image: imageInfos.get(file.sha) ?? null,
+          variants: (imageVariants.get(imageVariantKey(file.path)) ?? []).map(({ width, entry }) => {
+            const variantLfs = lfsVariantPaths.has(entry.relativePath);
+            return {
+              width,
+              name: fileNameFromPath(entry.relativePath),
+              path: entry.relativePath,
+              cdn_url: toStoredAssetCdnUrl(selection, config.cdn, entry.repoPath, variantLfs),
+              pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, entry.repoPath, variantLfs),
+            };
+          }),
+        };
+      });
+
+      res.json({
+        current_folder: requestedFolder,
+        commit_sha: commitSha,
+        complete,
+        folders: childFolders,
+        files: folderFiles,
+        total: page.total,
+        next_cursor: page.nextCursor,
+        all_folders: inventory.folders.map((folder) => folder.path),
+        all_tags: countAssetTags(metadataManifest, blobEntries),
+      });
+    } catch (error: any) {
+      if (error.status === 404) {
+        return res.json({
+          current_folder: requestedFolder,
+          folders: [],
+          files: [],
+          all_folders: [],
+        });
+      }
+
+      console.error("List assets error:", error);
+      res.status(500).json({ error: "Failed to fetch assets" });
+    }
+  });
+
+  app.get("/api/assets/duplicates", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.json({ groups: [], duplicate_files: 0, wasted_bytes: 0 });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const [config, snapshot] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        getAssetSnapshot(octokit, selection),
+      ]);
+
+      // Identical bytes share a blob SHA, including identical LFS pointers.
+      const entriesBySha = new Map<string, AssetBlobEntry[]>();
+      for (const entry of snapshot.entries) {
+        if (fileNameFromPath(entry.relativePath) === ".gitkeep") {
+          continue;
+        }
+
+        const entries = entriesBySha.get(entry.sha) ?? [];
+        entries.push(entry);
+        entriesBySha.set(entry.sha, entries);
+      }
+
+      const duplicateEntries = Array.from(entriesBySha.values()).filter((entries) => entries.length > 1);
+      const resolvedEntries = await resolveLfsPointerEntries(octokit, selection, duplicateEntries.flat());
+      const resolvedByPath = new Map(resolvedEntries.map((entry) => [entry.relativePath, entry]));
+
+      const groups = duplicateEntries
+        .map((entries) => {
+          const resolved = entries.map((entry) => resolvedByPath.get(entry.relativePath) ?? entry);
+          const size = resolved[0].size;
+          return {
+            sha: resolved[0].sha,
+            size,
+            storage: resolved[0].lfs ? "lfs" : "git",
+            wasted_bytes: size * (resolved.length - 1),
+            files: resolved
+              .map((entry) => ({
+                name: fileNameFromPath(entry.relativePath),
+                path: entry.relativePath,
+                folder: parentFolderPath(entry.relativePath),
+                cdn_url: toStoredAssetCdnUrl(selection, config.cdn, entry.repoPath, Boolean(entry.lfs)),
+              }))
+              .sort((a, b) => a.path.localeCompare(b.path)),
+          };
+        })
+        .sort((a, b) => b.wasted_bytes - a.wasted_bytes || a.files[0].path.localeCompare(b.files[0].path));
+
+      res.json({
+        complete: snapshot.complete,
+        groups,
+        duplicate_files: groups.reduce((total, group) => total + group.files.length - 1, 0),
+        wasted_bytes: groups.reduce((total, group) => total + group.wasted_bytes, 0),
+      });
+    } catch (error: any) {
+      if (error.status === 404) {
+        return res.json({ groups: [], duplicate_files: 0, wasted_bytes: 0 });
+      }
+
+      console.error("Find duplicates error:", error);
+      res.status(500).json({ error: "Failed to find duplicate assets." });
+    }
+  });
+
+  app.get("/api/assets/integrity", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before reading asset hashes." });
+    }
+
+    const assetPath = normalizeAssetRelativePath(req.query.path);
+    if (!assetPath) {
+      return res.status(400).json({ error: "Asset path query param is required." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const head = await getBranchHead(octokit, selection);
+      if (sendNotModifiedIfFresh(req, res, selection, head, `integrity:${assetPath}`)) {
+        return;
+      }
+
+      const [config, { commitSha, entries }] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        getAssetSnapshot(octokit, selection, head),
+      ]);
+      const entry = entries.find((candidate) => candidate.relativePath === assetPath);
+      if (!entry) {
+        return res.status(404).json({ error: "Asset not found." });
+      }
+
+      const details = await getAssetBlobDetails(octokit, selection, entry.sha);
+      res.json({
+        path: assetPath,
+        sha: entry.sha,
+        size: details.size,
+        storage: details.lfs ? "lfs" : "git",
+        integrity: details.integrity,
+        cdn_url: toStoredAssetCdnUrl(selection, config.cdn, entry.repoPath, details.lfs),
+        pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, entry.repoPath, details.lfs),
+      });
+    } catch (error) {
+      console.error("Asset integrity error:", error);
+      res.status(500).json({ error: "Failed to compute asset hashes." });
+    }
+  });
+
+  app.get("/api/assets/history", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before reading asset history." });
+    }
+
+    const assetPath = normalizeAssetRelativePath(req.query.path);
+    if (!assetPath) {
+      return res.status(400).json({ error: "Asset path query param is required." });
+    }
+
+    const repoPath = joinAssetRepoPath(assetPath);
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const config = await readRepoConfig(octokit, selection);
+      const { data: commits } = await octokit.repos.listCommits({
+        owner: selection.owner,
+        repo: selection.repo,
+        sha: selection.branch,
+        path: repoPath,
+        per_page: ASSET_HISTORY_MAX_VERSIONS,
+      });
+
+      if (commits.length === 0) {
+        return res.status(404).json({ error: "No history found for this asset." });
+      }
+
+      // Blob SHAs and sizes come from one query. Only blobs sized like an LFS pointer are read.
+      const blobs = await getBlobsAt(
+        octokit,
+        selection,
+        commits.map((commit) => `${commit.sha}:${repoPath}`),
+      );
+      const resolvedBlobs = await resolveLfsPointerEntries(
+        octokit,
+        selection,
+        blobs.flatMap((blob) => (blob ? [{ repoPath, relativePath: assetPath, ...blob }] : [])),
+      );
+      const versionsBySha = new Map(resolvedBlobs.map((entry) => [entry.sha, entry]));
+
+      const versions = commits.map((commit, index) => {
+        const version = blobs[index] ? versionsBySha.get(blobs[index].sha) : undefined;
+        const lfs = Boolean(version?.lfs);
+        return {
+          commit_sha: commit.sha,
+          message: commit.commit.message,
+          author: {
+            name: commit.commit.author?.name ?? null,
+            login: commit.author?.login ?? null,
+            avatar_url: commit.author?.avatar_url ?? null,
+          },
+          date: commit.commit.author?.date ?? commit.commit.committer?.date ?? null,
+          deleted: !version,
+          blob_sha: version?.sha ?? null,
+          size: version?.size ?? null,
+          storage: lfs ? "lfs" : "git",
+          pinned_cdn_url: version ? toPinnedCdnUrl(selection, config.cdn, commit.sha, repoPath, lfs) : null,
+        };
+      });
+
+      res.json({
+        path: assetPath,
+        current_sha: versions[0].blob_sha,
+        versions,
+      });
+    } catch (error) {
+      console.error("Asset history error:", error);
+      res.status(500).json({ error: "Failed to fetch asset history." });
+    }
+  });
+
+  app.post("/api/assets/restore", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before restoring assets." });
+    }
+
+    const assetPath = normalizeAssetRelativePath(req.body?.path);
+    if (!assetPath) {
+      return res.status(400).json({ error: "Asset path is required." });
+    }
+
+    const sourceCommitSha = parseCommitSha(req.body?.commit_sha);
+    if (!sourceCommitSha) {
+      return res.status(400).json({ error: "commit_sha must be a commit SHA." });
+    }
+
+    const repoPath = joinAssetRepoPath(assetPath);
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const version = await getAssetVersionAtCommit(octokit, selection, repoPath, sourceCommitSha);
+      if (!version) {
+        return res.status(404).json({ error: "The asset does not exist at that commit." });
+      }
+
+      const current = await getExistingAssetFile(octokit, selection, repoPath);
+      if (current?.type === "other") {
+        return res.status(409).json({ error: "A folder now exists at the asset path." });
+      }
+
+      const config = await readRepoConfig(octokit, selection);
+
+      // The old blob is still in the repository, so restoring only points the path back at it.
+      const unchanged = current?.sha === version.sha;
+      const commitSha = unchanged
+        ? await getBranchHeadSha(octokit, selection)
+        : await commitAssetTreeChanges(
+            octokit,
+            selection,
+            [{ repoPath, sha: version.sha }],
+            `Restore ${assetPath} to ${sourceCommitSha.slice(0, 7)} via GitCDN`,
+            config,
+          );
+
+      res.json({
+        success: true,
+        path: assetPath,
+        restored_from: sourceCommitSha,
+        unchanged,
+        commit_sha: commitSha,
+        size: version.size,
+        storage: version.lfs ? "lfs" : "git",
+        cdn_url: toStoredAssetCdnUrl(selection, config.cdn, repoPath, version.lfs),
+        pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, repoPath, version.lfs),
+      });
+    } catch (error) {
+      console.error("Restore asset error:", error);
+      res.status(500).json({ error: "Failed to restore asset." });
+    }
+  });
+
+  app.post("/api/undo", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before undoing changes." });
+    }
+
+    const targetCommitSha = parseCommitSha(req.body?.commit_sha);
+    if (!targetCommitSha) {
+      return res.status(400).json({ error: "commit_sha must be a commit SHA." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const targetCommit = await findCommit(octokit, selection, targetCommitSha);
+      if (!targetCommit) {
+        return res.status(404).json({ error: "Commit not found." });
+      }
+
+      if (!isGitCdnCommitMessage(targetCommit.message)) {
+        return res.status(403).json({ error: "Only commits made by GitCDN can be undone." });
+      }
+
+      if (targetCommit.parents.length !== 1) {
+        return res.status(400).json({ error: "Only single-parent commits can be undone." });
+      }
+
+      const { data: comparison } = await octokit.repos.compareCommits({
+        owner: selection.owner,
+        repo: selection.repo,
+        base: targetCommit.sha,
+        head: selection.branch,
+      });
+
+      if (comparison.status !== "ahead" && comparison.status !== "identical") {
+        return res.status(404).json({ error: "The commit is not on the selected branch." });
+      }
+
+      const [listedPaths, config] = await Promise.all([
+        listCommitChangedPaths(octokit, selection, targetCommit.sha),
+        readRepoConfig(octokit, selection),
+      ]);
+      if (!listedPaths) {
+        return res.status(422).json({ error: "The commit changed too many files to undo." });
+      }
+
+      // The generated manifest is rebuilt by the revert commit itself.
+      const touchedPaths = listedPaths.filter((path) => !(config.manifest.enabled && path === ASSET_MANIFEST_PATH));
+      const [targetFiles, parentFiles] = await Promise.all([
+        getFileEntriesAt(octokit, selection, targetCommit.sha, touchedPaths),
+        getFileEntriesAt(octokit, selection, targetCommit.parents[0].sha, touchedPaths),
+      ]);
+      const sameFile = (left?: { sha: string; mode: FileMode }, right?: { sha: string; mode: FileMode }) =>
+        left?.sha === right?.sha && left?.mode === right?.mode;
+      const changedPaths = touchedPaths.filter((path) => !sameFile(targetFiles.get(path), parentFiles.get(path)));
+
+      if (changedPaths.length === 0) {
+        return res.status(400).json({ error: "The commit did not change any files." });
+      }
+
+      const subject = targetCommit.message.split("\n")[0].trim();
+      let conflicts: string[] = [];
+      const commitSha = await commitRebasedTreeChanges(
+        octokit,
+        selection,
+        `Revert "${subject}" via GitCDN\n\nThis reverts commit ${targetCommit.sha}.`,
+        config,
+        async (headSha) => {
+          // A path whose head file differs from what the commit left behind was changed
+          // again later, and reverting it would discard that newer change.
+          const headFiles = await getFileEntriesAt(octokit, selection, headSha, changedPaths);
+          conflicts = changedPaths.filter((path) => !sameFile(headFiles.get(path), targetFiles.get(path)));
+          if (conflicts.length > 0) {
+            return [];
+          }
+
+          return changedPaths.map((path) => {
+            const parentFile = parentFiles.get(path);
+            return { repoPath: path, sha: parentFile?.sha ?? null, mode: parentFile?.mode };
+          });
+        },
+      );
+
+      if (!commitSha) {
+        return res.status(409).json({
+          error: "Later commits changed the same files.",
+          conflicts,
+        });
+      }
+
+      res.json({
+        success: true,
+        reverted: targetCommit.sha,
+        paths: changedPaths,
+        commit_sha: commitSha,
+      });
+    } catch (error: any) {
+      if (isBranchMovedError(error)) {
+        return res.status(409).json({ error: BRANCH_MOVED_ERROR });
+      }
+
+      console.error("Undo error:", error);
+      res.status(500).json({ error: "Failed to undo commit." });
+    }
+  });
+
+  app.get("/api/metadata", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before reading asset metadata." });
+    }
+
+    // Without a path the metadata of every asset is returned.
+    const assetPath = req.query.path === undefined ? null : normalizeAssetRelativePath(req.query.path);
+    if (req.query.path !== undefined && !assetPath) {
+      return res.status(400).json({ error: "Invalid asset path." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const manifest = await readMetadataManifest(octokit, selection);
+      if (assetPath) {
+        return res.json({ path: assetPath, metadata: manifest[assetPath] ?? emptyAssetMetadata() });
+      }
+
+      res.json({
+        assets: Object.fromEntries(
+          Object.entries(manifest).filter(([key]) => !key.startsWith(`${TRASH_FOLDER}/`)),
+        ),
+      });
+    } catch (error) {
+      console.error("Read metadata error:", error);
+      res.status(500).json({ error: "Failed to read asset metadata." });
+    }
+  });
+
+  app.put("/api/metadata", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before editing asset metadata." });
+    }
+
+    const assetPath = normalizeAssetRelativePath(req.body?.path);
+    if (!assetPath) {
+      return res.status(400).json({ error: "Asset path is required." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const current = await getExistingAssetFile(octokit, selection, joinAssetRepoPath(assetPath));
+      if (current?.type !== "file") {
+        return res.status(404).json({ error: "Asset not found." });
+      }
+
+      // Field values are valid or not regardless of what they replace.
+      if (!parseAssetMetadata(req.body, emptyAssetMetadata())) {
+        return res.status(400).json({ error: METADATA_INVALID_ERROR });
+      }
+
+      // Omitted fields keep the values found at the head the commit builds on.
+      let metadata = emptyAssetMetadata();
+      const commitSha = await commitMetadataEdit(
+        octokit,
+        selection,
+        (manifest) => {
+          const current = manifest[assetPath] ?? emptyAssetMetadata();
+          metadata = parseAssetMetadata(req.body, current) ?? current;
+          return setAssetMetadata(manifest, assetPath, metadata);
+        },
+        `Update metadata of ${assetPath} via GitCDN`,
+      );
+
+      res.json({ success: true, path: assetPath, metadata, commit_sha: commitSha });
+    } catch (error) {
+      console.error("Update metadata error:", error);
+      res.status(500).json({ error: "Failed to update asset metadata." });
+    }
+  });
+
+  // Adds and removes tags on many assets in one commit.
+  app.patch("/api/metadata", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before editing asset metadata." });
+    }
+
+    const rawPaths: unknown[] = Array.isArray(req.body?.paths) ? req.body.paths : [];
+    const assetPaths = Array.from(new Set(rawPaths.map((entry) => normalizeAssetRelativePath(entry) ?? "")));
+    if (assetPaths.length === 0 || assetPaths.includes("")) {
+      return res.status(400).json({ error: "paths must be a non-empty list of asset paths." });
+    }
+    if (assetPaths.length > METADATA_BULK_MAX_PATHS) {
+      return res.status(400).json({ error: `At most ${METADATA_BULK_MAX_PATHS} assets can be tagged at once.` });
+    }
+
+    const addTags = parseMetadataTags(req.body?.add_tags ?? [], []);
+    const removeTags = parseMetadataTags(req.body?.remove_tags ?? [], []);
+    if (!addTags || !removeTags || addTags.length + removeTags.length === 0) {
+      return res.status(400).json({ error: "Provide add_tags or remove_tags." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const { entries } = await getAssetSnapshot(octokit, selection);
+      const existingPaths = new Set(entries.map((entry) => entry.relativePath));
+      const missing = assetPaths.filter((assetPath) => !existingPaths.has(assetPath));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: "Some assets were not found.", missing });
+      }
+
+      // Recomputed for every commit attempt. An asset whose tags would become invalid
+      // cancels the whole edit.
+      let updated: string[] = [];
+      let invalidPath: string | null = null;
+      const commitSha = await commitMetadataEdit(
+        octokit,
+        selection,
+        (manifest) => {
+          updated = [];
+          invalidPath = null;
+          for (const assetPath of assetPaths) {
+            const current = manifest[assetPath] ?? emptyAssetMetadata();
+            const tags = parseMetadataTags(
+              [...current.tags.filter((tag) => !removeTags.includes(tag)), ...addTags],
+              [],
+            );
+            if (!tags) {
+              invalidPath = assetPath;
+              return false;
+            }
+            if (setAssetMetadata(manifest, assetPath, { ...current, tags })) {
+              updated.push(assetPath);
+            }
+          }
+          return updated.length > 0;
+        },
+        `Update tags of ${assetPaths.length} asset${assetPaths.length === 1 ? "" : "s"} via GitCDN`,
+      );
+      if (invalidPath) {
+        return res.status(400).json({ error: `${invalidPath}: ${METADATA_INVALID_ERROR}` });
+      }
+
+      res.json({ success: true, updated, commit_sha: commitSha });
+    } catch (error) {
+      console.error("Bulk metadata error:", error);
+      res.status(500).json({ error: "Failed to update asset tags." });
+    }
+  });
+
+  app.get("/api/manifest", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before reading its manifest." });
+    }
+
+    const folder = normalizeFolderPath(req.query.folder);
+    if (folder == null) {
+      return res.status(400).json({ error: "Invalid folder path." });
+    }
+
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const head = await getBranchHead(octokit, selection);
+      if (sendNotModifiedIfFresh(req, res, selection, head, `manifest:${folder}`)) {
+        return;
+      }
+
+      res.json(await buildAssetManifest(octokit, selection, head, folder));
+    } catch (error) {
+      console.error("Asset manifest error:", error);
+      res.status(500).json({ error: "Failed to build asset manifest." });
+    }
+  });
+
+  // Same manifest for build tools holding an API app token, limited to the app's folder.
+  app.get("/api/ingest/:appId/manifest", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
 
-  return session;
-}
+    const appTokenPayload = requireIngestApp(req, res);
+    if (!appTokenPayload) {
+      return;
+    }
 
-export function createApiApp() {
-  const app = express();
+    const folder = resolveIngestFolder(req.query.folder, appTokenPayload.base_folder);
+    if (folder == null) {
+      return res.status(400).json({ error: "Invalid folder path or outside API app scope." });
+    }
 
-  if (IS_PRODUCTION) {
-    app.set("trust proxy", 1);
-  }
+    const selection: RepoSelection = {
+      owner: appTokenPayload.owner,
+      repo: appTokenPayload.repo,
+      branch: appTokenPayload.branch,
+    };
+    const octokit = new Octokit({ auth: appTokenPayload.github_token });
 
-  app.use(express.json({ limit: "15mb" }));
-  const ingestUpload = multer({
-    storage: multer.memoryStorage(),
-    limits: { fileSize: API_APP_ABSOLUTE_MAX_BYTES },
-  });
+    try {
+      const head = await getBranchHead(octokit, selection);
+      if (sendNotModifiedIfFresh(req, res, selection, head, `manifest:${folder}`)) {
+        return;
+      }
 
-  app.get("/api/health", (_req, res) => {
-    res.json({
-      ok: true,
-      env: NODE_ENV,
-      configured: {
-        app_url: Boolean(APP_URL),
-        github_client_id: HAS_GITHUB_CLIENT_ID,
-        github_client_secret: HAS_GITHUB_CLIENT_SECRET,
-        session_secret: Boolean(SESSION_SECRET),
-        token_encryption_key: Boolean(TOKEN_ENCRYPTION_KEY),
-      },
-    });
+      res.json(await buildAssetManifest(octokit, selection, head, folder));
+    } catch (error) {
+      console.error("API app manifest error:", error);
+      res.status(500).json({ error: "Failed to build asset manifest." });
+    }
   });
 
-  app.get("/api/auth/url", (req, res) => {
+  app.get("/api/folders", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
 
-    if (!ensureGitHubClientConfigured(res)) {
+    const session = requireSession(req, res);
+    if (!session) {
       return;
     }
 
-    const state = crypto.randomBytes(24).toString("hex");
-    writeEncryptedCookie(
-      res,
-      OAUTH_STATE_COOKIE_NAME,
-      {
-        state,
-        expires_at: Date.now() + OAUTH_STATE_TTL_MS,
-      } as OAuthState,
-      OAUTH_STATE_TTL_MS,
-    );
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.json({ folders: [] });
+    }
 
-    const redirectUri = `${getBaseUrl(req)}/api/auth/callback`;
-    const query = new URLSearchParams({
-      client_id: GITHUB_CLIENT_ID,
-      redirect_uri: redirectUri,
-      scope: "repo,user",
-      state,
-    });
+    const octokit = new Octokit({ auth: session.github_token });
 
-    res.json({ url: `https://github.com/login/oauth/authorize?${query.toString()}` });
+    try {
+      const head = await getBranchHead(octokit, selection);
+      if (sendNotModifiedIfFresh(req, res, selection, head, "folders")) {
+        return;
+      }
+
+      const { complete, entries: blobEntries } = await getAssetSnapshot(octokit, selection, head);
+      const inventory = buildAssetInventory(selection, blobEntries);
+
+      res.json({
+        complete,
+        folders: inventory.folders,
+      });
+    } catch (error: any) {
+      if (error.status === 404) {
+        return res.json({ folders: [] });
+      }
+
+      console.error("List folders error:", error);
+      res.status(500).json({ error: "Failed to fetch folders" });
+    }
   });
 
-  app.get("/api/auth/callback", async (req, res) => {
-    if (!ensureCryptoConfigured(res) || !ensureGitHubOAuthConfigured(res)) {
+  app.post("/api/folders", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
       return;
     }
 
-    const code = typeof req.query.code === "string" ? req.query.code : "";
-    const state = typeof req.query.state === "string" ? req.query.state : "";
-
-    const oauthState = readEncryptedCookie<OAuthState>(req, OAUTH_STATE_COOKIE_NAME);
-    clearCookie(res, OAUTH_STATE_COOKIE_NAME);
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
 
-    if (!code || !state) {
-      return res.status(400).send("Missing OAuth code or state.");
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before creating folders." });
     }
 
-    if (!oauthState || oauthState.state !== state || Date.now() > oauthState.expires_at) {
-      return res.status(400).send("Invalid or expired OAuth state. Please try again.");
+    const folderPath = normalizeFolderPath(req.body?.path);
+    if (folderPath == null || !folderPath) {
+      return res.status(400).json({ error: "Folder path is required." });
     }
 
+    const octokit = new Octokit({ auth: session.github_token });
+    const folderRepoPath = joinAssetRepoPath(folderPath);
+    const gitkeepPath = `${folderRepoPath}/.gitkeep`;
+
     try {
-      const tokenResponse = await axios.post(
-        "https://github.com/login/oauth/access_token",
-        {
-          client_id: GITHUB_CLIENT_ID,
-          client_secret: GITHUB_CLIENT_SECRET,
-          code,
-          redirect_uri: `${getBaseUrl(req)}/api/auth/callback`,
-        },
-        { headers: { Accept: "application/json" } },
+      const commitSha = await commitAssetFile(
+        octokit,
+        selection,
+        await readRepoConfig(octokit, selection),
+        gitkeepPath,
+        Buffer.from("gitcdn-folder\n"),
+        `Create folder ${folderPath} via GitCDN`,
       );
 
-      const accessToken = tokenResponse.data?.access_token;
-      if (typeof accessToken !== "string" || !accessToken) {
-        throw new Error("No access token received");
+      res.json({
+        success: true,
+        path: folderPath,
+        commit_sha: commitSha,
+      });
+    } catch (error) {
+      console.error("Create folder error:", error);
+      res.status(500).json({ error: "Failed to create folder." });
+    }
+  });
+
+  app.delete("/api/folders", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before deleting folders." });
+    }
+
+    const folderPath = normalizeFolderPath(req.query.path);
+    if (folderPath == null || !folderPath) {
+      return res.status(400).json({ error: "Folder path query param is required." });
+    }
+
+    const permanent = parseBooleanFlag(req.query.permanent);
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const [config, snapshot] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        getAssetSnapshot(octokit, selection),
+      ]);
+      // A partial listing would leave part of the folder behind.
+      if (!snapshot.complete) {
+        return res.status(422).json({ error: "The repository is too large to delete this folder in one commit." });
       }
 
-      const octokit = new Octokit({ auth: accessToken });
-      const { data: githubUser } = await octokit.users.getAuthenticated();
+      const prefix = `${folderPath}/`;
+      const entriesToDelete = snapshot.entries.filter((entry) => entry.relativePath.startsWith(prefix));
 
-      const existingSession = readSession(req);
+      if (entriesToDelete.length === 0) {
+        return res.status(404).json({ error: "Folder not found or empty." });
+      }
 
-      writeSession(res, {
-        github_token: accessToken,
-        username: githubUser.login,
-        avatar_url: githubUser.avatar_url,
-        selected_repo: existingSession?.selected_repo ?? null,
-        selected_branch: existingSession?.selected_branch ?? null,
-      });
+      const { commitSha, trashId } = await deleteAssetEntries(
+        octokit,
+        selection,
+        config,
+        snapshot,
+        entriesToDelete,
+        permanent,
+        `${permanent ? "Delete" : "Trash"} ${folderPath} via GitCDN`,
+      );
 
-      res.type("html").send(`
-        <!doctype html>
-        <html>
-          <body>
-            <script>
-              const appOrigin = ${JSON.stringify(getOrigin(req))};
-              if (window.opener) {
-                window.opener.postMessage({ type: "OAUTH_AUTH_SUCCESS" }, appOrigin);
-                window.close();
-              } else {
-                window.location.href = "/";
-              }
-            </script>
-            <p>Authentication successful. This window should close automatically.</p>
-          </body>
-        </html>
-      `);
+      res.json({
+        success: true,
+        deleted: entriesToDelete.length,
+        trash_id: trashId,
+        commit_sha: commitSha,
+      });
     } catch (error) {
-      console.error("Auth error:", error);
-      res.status(500).send("Authentication failed");
+      console.error("Delete folder error:", error);
+      res.status(500).json({ error: "Failed to delete folder." });
     }
   });
 
-  app.get("/api/me", (req, res) => {
+  app.get("/api/trash", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
 
-    const session = readSession(req);
+    const session = requireSession(req, res);
     if (!session) {
-      clearCookie(res, SESSION_COOKIE_NAME);
-      return res.status(401).json({ error: "Unauthorized" });
+      return;
     }
 
-    res.json({
-      username: session.username,
-      avatar_url: session.avatar_url,
-      selected_repo: session.selected_repo,
-      selected_branch: session.selected_branch,
-    });
-  });
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.json({ retention_days: TRASH_DEFAULT_RETENTION_DAYS, items: [] });
+    }
 
-  app.post("/api/logout", (_req, res) => {
-    clearAuthCookies(res);
-    res.json({ success: true });
+    const octokit = new Octokit({ auth: session.github_token });
+
+    try {
+      const [config, snapshot] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        getAssetSnapshot(octokit, selection),
+      ]);
+      // Listing the trash enforces its retention, so it holds even when nothing else is
+      // committed. A token that cannot write still gets the list, with expired items marked.
+      const now = Date.now();
+      const purged = await purgeExpiredTrash(octokit, selection, config, snapshot, now).catch((error) => {
+        console.error("Purge expired trash error:", error);
+        return null;
+      });
+
+      const items = snapshot.trashEntries
+        .filter((entry) => fileNameFromPath(entry.originalPath) !== ".gitkeep")
+        .filter((entry) => !purged || trashExpiresAt(config, entry) > now)
+        .map((entry) => ({
+          id: entry.id,
+          trash_id: entry.batchId,
+          path: entry.originalPath,
+          name: fileNameFromPath(entry.originalPath),
+          folder: parentFolderPath(entry.originalPath),
+          size: entry.size,
+          deleted_at: entry.deletedAt,
+          expires_at: trashExpiresAt(config, entry),
+          expired: trashExpiresAt(config, entry) <= now,
+        }))
+        .sort((a, b) => b.deleted_at - a.deleted_at || a.path.localeCompare(b.path));
+
+      res.json({ retention_days: config.trash.retention_days, complete: snapshot.complete, items });
+    } catch (error: any) {
+      if (error.status === 404) {
+        return res.json({ retention_days: TRASH_DEFAULT_RETENTION_DAYS, items: [] });
+      }
+
+      console.error("List trash error:", error);
+      res.status(500).json({ error: "Failed to fetch trash." });
+    }
   });
 
-  app.get("/api/repos", async (req, res) => {
+  app.post("/api/trash/restore", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1056,28 +6579,78 @@ export function createApiApp() {
       return;
     }
 
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before restoring from trash." });
+    }
+
+    const ids = parseTrashIds(req.body?.ids);
+    if (!ids) {
+      return res.status(400).json({ error: "ids must be a non-empty array of trash ids." });
+    }
+
     const octokit = new Octokit({ auth: session.github_token });
 
     try {
-      const { data: repos } = await octokit.repos.listForAuthenticatedUser({
-        sort: "updated",
-        per_page: 100,
-      });
+      const [config, snapshot] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        getAssetSnapshot(octokit, selection),
+      ]);
+      const restoredEntries = selectTrashEntries(snapshot.trashEntries, ids);
+      if (restoredEntries.length === 0) {
+        return res.status(404).json({ error: "Nothing in trash matches these ids." });
+      }
 
-      res.json(
-        repos.map((repo) => ({
-          full_name: repo.full_name,
-          name: repo.name,
-          private: repo.private,
-          default_branch: repo.default_branch,
-        })),
+      // The same path trashed twice can only be restored once at a time.
+      const targetPaths = restoredEntries.map((entry) => entry.originalPath);
+      const repeatedPaths = targetPaths.filter((path, index) => targetPaths.indexOf(path) !== index);
+      const conflicts = [...collectMoveConflicts(snapshot.entries, new Set(), targetPaths), ...repeatedPaths];
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          error: "Files already exist at the original paths.",
+          conflicts: Array.from(new Set(conflicts)),
+        });
+      }
+
+      const restoredIds = new Set(restoredEntries.map((entry) => entry.id));
+      const changes: AssetTreeChange[] = [];
+      for (const entry of restoredEntries) {
+        changes.push({ repoPath: joinAssetRepoPath(entry.originalPath), sha: entry.sha });
+        changes.push({ repoPath: entry.repoPath, sha: null });
+      }
+      const expiredChanges = expiredTrashChanges(
+        config,
+        snapshot.trashEntries.filter((entry) => !restoredIds.has(entry.id)),
+        Date.now(),
       );
-    } catch {
-      res.status(500).json({ error: "Failed to fetch repos" });
+      changes.push(...expiredChanges);
+      // Restored files take their image info back with their blobs; only purged ones lose it.
+      changes.push(...staleImageInfoChanges(snapshot, changes));
+
+      const commitSha = await commitAssetTreeChanges(
+        octokit,
+        selection,
+        changes,
+        `Restore ${restoredEntries.length} file${restoredEntries.length === 1 ? "" : "s"} from trash via GitCDN`,
+        config,
+        restoreTrashMetadataEdit(
+          restoredEntries,
+          expiredChanges.map((change) => change.repoPath),
+        ),
+      );
+
+      res.json({
+        success: true,
+        restored: restoredEntries.map((entry) => entry.originalPath),
+        commit_sha: commitSha,
+      });
+    } catch (error) {
+      console.error("Restore trash error:", error);
+      res.status(500).json({ error: "Failed to restore from trash." });
     }
   });
 
-  app.post("/api/select-repo", (req, res) => {
+  app.post("/api/trash/purge", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1087,27 +6660,58 @@ export function createApiApp() {
       return;
     }
 
-    const parsedRepo = parseRepoFullName(req.body?.repo);
-    if (!parsedRepo) {
-      return res.status(400).json({ error: "Repository must be in owner/repo format." });
+    const selection = getRepoSelection(session);
+    if (!selection) {
+      return res.status(400).json({ error: "Select a repository before emptying trash." });
     }
 
-    const branchInput = req.body?.branch;
-    const branch = branchInput == null ? "main" : parseBranchName(branchInput);
-    if (!branch) {
-      return res.status(400).json({ error: "Invalid branch name." });
+    // Without ids the whole trash is emptied.
+    const ids = req.body?.ids == null ? null : parseTrashIds(req.body.ids);
+    if (req.body?.ids != null && !ids) {
+      return res.status(400).json({ error: "ids must be a non-empty array of trash ids." });
     }
 
-    writeSession(res, {
-      ...session,
-      selected_repo: `${parsedRepo.owner}/${parsedRepo.repo}`,
-      selected_branch: branch,
-    });
+    const octokit = new Octokit({ auth: session.github_token });
 
-    res.json({ success: true });
+    try {
+      const [config, snapshot] = await Promise.all([
+        readRepoConfig(octokit, selection),
+        getAssetSnapshot(octokit, selection),
+      ]);
+      const selectedEntries = ids ? selectTrashEntries(snapshot.trashEntries, ids) : snapshot.trashEntries;
+      const changes = new Map<string, AssetTreeChange>();
+      for (const change of [
+        ...selectedEntries.map((entry) => ({ repoPath: entry.repoPath, sha: null })),
+        ...expiredTrashChanges(config, snapshot.trashEntries, Date.now()),
+      ]) {
+        changes.set(change.repoPath, change);
+      }
+
+      if (changes.size === 0) {
+        return res.json({ success: true, purged: 0, commit_sha: null });
+      }
+
+      const purgedPaths = Array.from(changes.keys());
+      const treeChanges = Array.from(changes.values());
+      treeChanges.push(...staleImageInfoChanges(snapshot, treeChanges));
+
+      const commitSha = await commitAssetTreeChanges(
+        octokit,
+        selection,
+        treeChanges,
+        "Empty trash via GitCDN",
+        config,
+        metadataMovesEdit(purgedPaths.map((repoPath): [string, string | null] => [repoPath, null])),
+      );
+
+      res.json({ success: true, purged: purgedPaths.length, commit_sha: commitSha });
+    } catch (error) {
+      console.error("Purge trash error:", error);
+      res.status(500).json({ error: "Failed to purge trash." });
+    }
   });
 
-  app.post("/api/apps", (req, res) => {
+  app.post("/api/upload", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1119,277 +6723,200 @@ export function createApiApp() {
 
     const selection = getRepoSelection(session);
     if (!selection) {
-      return res.status(400).json({ error: "Select a repository before creating an API app." });
-    }
-
-    const providedName = req.body?.name;
-    const appName = providedName == null ? "GitCDN Ingest App" : sanitizeAppName(providedName);
-    if (!appName) {
-      return res.status(400).json({ error: "Invalid app name." });
+      return res.status(400).json({ error: "Select a repository before uploading." });
     }
 
-    const baseFolder = normalizeFolderPath(req.body?.folder);
-    if (baseFolder == null) {
+    const folderPath = normalizeFolderPath(req.body?.folder);
+    if (folderPath == null) {
       return res.status(400).json({ error: "Invalid folder path." });
     }
 
-    const allowedExtensions = parseAllowedExtensions(req.body?.allowed_extensions);
-    if (!allowedExtensions) {
-      return res.status(400).json({ error: "allowed_extensions must be an array of valid extensions." });
+    const originalName = sanitizeAssetName(req.body?.name);
+
+    const base64Content = extractBase64Payload(req.body?.content);
+    if (!base64Content) {
+      return res.status(400).json({ error: "Invalid upload payload." });
     }
 
-    const maxBytes = parseApiAppMaxBytes(req.body?.max_bytes);
-    if (!maxBytes) {
-      return res
-        .status(400)
-        .json({ error: `max_bytes must be a positive integer up to ${API_APP_ABSOLUTE_MAX_BYTES}.` });
+    const requestedNameInput = req.body?.filename;
+    const requestedName = requestedNameInput == null ? null : sanitizeMoveTargetName(requestedNameInput);
+    if (requestedNameInput != null && !requestedName) {
+      return res.status(400).json({ error: "Invalid filename." });
     }
 
-    const ttlDays = parseApiAppTtlDays(req.body?.expires_in_days);
-    if (!ttlDays) {
-      return res
-        .status(400)
-        .json({ error: `expires_in_days must be a positive integer up to ${API_APP_MAX_TTL_DAYS}.` });
+    const requestedPolicy = parseOverwritePolicy(req.body?.overwrite, "fail");
+    if (!requestedPolicy) {
+      return res.status(400).json({ error: `overwrite must be one of: ${OVERWRITE_POLICIES.join(", ")}.` });
     }
 
-    const now = Date.now();
-    const expiresAt = now + ttlDays * 24 * 60 * 60 * 1000;
-    const appId = `app_${crypto.randomBytes(8).toString("hex")}`;
-    const appTokenPayload: IngestAppTokenPayload = {
-      version: 1,
-      app_id: appId,
-      app_name: appName,
-      github_token: session.github_token,
-      owner: selection.owner,
-      repo: selection.repo,
-      branch: selection.branch,
-      base_folder: baseFolder,
-      allowed_extensions: allowedExtensions,
-      max_bytes: maxBytes,
-      issued_at: now,
-      expires_at: expiresAt,
-    };
+    const variantWidths = parseImageVariantWidths(req.body?.widths);
+    if (!variantWidths) {
+      return res.status(400).json({ error: IMAGE_VARIANT_WIDTHS_ERROR });
+    }
 
-    res.status(201).json({
-      app_id: appId,
-      app_name: appName,
-      token_type: "Bearer",
-      app_secret: encryptPayload(appTokenPayload),
-      ingest_url: `${getBaseUrl(req)}/api/ingest/${appId}`,
-      repo: `${selection.owner}/${selection.repo}`,
-      branch: selection.branch,
-      base_folder: baseFolder,
-      allowed_extensions: allowedExtensions,
-      max_bytes: maxBytes,
-      issued_at: now,
-      expires_at: expiresAt,
-    });
-  });
+    const content = Buffer.from(base64Content, "base64");
+    const force = parseBooleanFlag(req.body?.force);
+    const octokit = new Octokit({ auth: session.github_token });
 
-  app.post("/api/ingest/:appId", (req, res) => {
-    ingestUpload.single("file")(req, res, async (uploadError: unknown) => {
-      if (uploadError) {
-        if (uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE") {
-          return res.status(413).json({
-            error: `File exceeds the absolute API app upload limit of ${API_APP_ABSOLUTE_MAX_BYTES} bytes.`,
+    try {
+      const config = await readRepoConfig(octokit, selection);
+      const optimizationSettings = resolveImageOptimization(config, folderPath);
+      // A requested filename is kept as is, so its format is not converted.
+      const optimized = await optimizeImage(
+        content,
+        requestedName ? { ...optimizationSettings, format: "original" } : optimizationSettings,
+      );
+      const committedContent = optimized?.content ?? content;
+
+      // Replacing a specific file is explicit, so only new uploads are deduplicated.
+      if (!force && requestedPolicy !== "replace") {
+        const snapshot = await getAssetSnapshot(octokit, selection);
+        const duplicate = findDuplicateAsset(snapshot.entries, committedContent);
+        if (duplicate) {
+          return res.json({
+            success: true,
+            ...toDuplicateAssetFile(selection, config.cdn, duplicate, snapshot.commitSha, committedContent),
+            commit_sha: snapshot.commitSha,
           });
         }
-
-        console.error("Ingest upload parser error:", uploadError);
-        return res.status(400).json({ error: "Invalid file upload payload." });
-      }
-
-      const appId = parseIngestAppId(req.params.appId);
-      if (!appId) {
-        return res.status(400).json({ error: "Invalid app id." });
-      }
-
-      const bearerToken = parseBearerToken(req);
-      if (!bearerToken) {
-        return res.status(401).json({ error: "Missing Bearer token." });
-      }
-
-      const appTokenPayload = decryptPayload<IngestAppTokenPayload>(bearerToken);
-      if (!isIngestAppTokenPayload(appTokenPayload)) {
-        return res.status(401).json({ error: "Invalid API app token." });
-      }
-
-      if (appTokenPayload.app_id !== appId) {
-        return res.status(401).json({ error: "API app token does not match app id." });
-      }
-
-      if (Date.now() > appTokenPayload.expires_at) {
-        return res.status(401).json({ error: "API app token has expired." });
-      }
-
-      const targetFolder = resolveIngestFolder(req.body?.folder, appTokenPayload.base_folder);
-      if (targetFolder == null) {
-        return res.status(400).json({ error: "Invalid folder path or outside API app scope." });
-      }
-
-      const uploadedFile = req.file;
-      const requestedNameInput = req.body?.filename ?? req.body?.name;
-      const requestedName = requestedNameInput == null ? null : sanitizeAssetName(requestedNameInput);
-      if (requestedNameInput != null && !requestedName) {
-        return res.status(400).json({ error: "Invalid filename." });
-      }
-
-      const originalName = sanitizeAssetName(uploadedFile?.originalname) ?? requestedName;
-      const mimeType =
-        (typeof uploadedFile?.mimetype === "string" ? uploadedFile.mimetype.toLowerCase() : null) ??
-        extractMimeType(req.body?.content);
-
-      const rawBase64Content = uploadedFile
-        ? uploadedFile.buffer.toString("base64")
-        : normalizeRawBase64Payload(req.body?.content);
-      if (!rawBase64Content) {
-        return res
-          .status(400)
-          .json({ error: "Missing file content. Send multipart 'file' or JSON/base64 content." });
-      }
-
-      const buffer = Buffer.from(rawBase64Content, "base64");
-      if (!buffer.length) {
-        return res.status(400).json({ error: "Invalid or empty file payload." });
-      }
-
-      if (buffer.length > appTokenPayload.max_bytes) {
-        return res.status(413).json({
-          error: `File exceeds API app limit of ${appTokenPayload.max_bytes} bytes.`,
-        });
       }
 
-      const inferredExtension = inferAssetExtension(originalName, mimeType, req.body?.content);
-      if (appTokenPayload.allowed_extensions.length > 0) {
-        if (!inferredExtension || !appTokenPayload.allowed_extensions.includes(inferredExtension)) {
-          return res.status(415).json({
-            error: `File type is not allowed. Allowed extensions: ${appTokenPayload.allowed_extensions.join(
-              ", ",
-            )}`,
-          });
+      let assetName = requestedName;
+      let overwritePolicy = requestedPolicy;
+      if (!assetName) {
+        assetName = generateAssetName(config.naming.strategy, originalName, committedContent, req.body?.content);
+        if (req.body?.overwrite == null) {
+          overwritePolicy = namingCollisionPolicy(config.naming.strategy);
+        }
+      } else {
+        const inferredExtension = inferAssetExtension(originalName, null, req.body?.content);
+        if (!extractExtensionFromName(assetName) && inferredExtension) {
+          assetName = `${assetName}.${inferredExtension}`;
         }
       }
 
-      let assetName = requestedName;
-      if (!assetName) {
-        assetName = generateAnonymousAssetName(originalName, req.body?.content, mimeType);
-      } else if (!extractExtensionFromName(assetName) && inferredExtension) {
-        assetName = `${assetName}.${inferredExtension}`;
+      const plannedWidths = await planImageVariantWidths(content, variantWidths);
+      const target = await resolveUploadTarget(
+        octokit,
+        selection,
+        folderPath,
+        optimizedAssetName(assetName, optimized),
+        overwritePolicy,
+        {
+          companions: uploadCompanionNames(
+            plannedWidths,
+            optimized && optimizationSettings.keep_original ? assetName : null,
+          ),
+        },
+      );
+      if (!target) {
+        return res.status(409).json({ error: "A file already exists at the target path." });
       }
 
       const commitMessage =
         typeof req.body?.message === "string" && req.body.message.trim()
           ? req.body.message.trim()
-          : `Upload ${assetName} via ${appTokenPayload.app_name}`;
-
-      const selection: RepoSelection = {
-        owner: appTokenPayload.owner,
-        repo: appTokenPayload.repo,
-        branch: appTokenPayload.branch,
-      };
-
-      const relativeAssetPath = targetFolder ? `${targetFolder}/${assetName}` : assetName;
-      const assetPath = joinAssetRepoPath(relativeAssetPath);
-      const octokit = new Octokit({ auth: appTokenPayload.github_token });
-
-      try {
-        await octokit.repos.createOrUpdateFileContents({
-          owner: selection.owner,
-          repo: selection.repo,
-          path: assetPath,
-          branch: selection.branch,
-          message: commitMessage,
-          content: buffer.toString("base64"),
-        });
-
-        return res.json({
-          success: true,
-          app_id: appTokenPayload.app_id,
-          app_name: appTokenPayload.app_name,
-          repo: `${selection.owner}/${selection.repo}`,
-          branch: selection.branch,
-          name: assetName,
-          path: relativeAssetPath,
-          folder: targetFolder,
-          size: buffer.length,
-          cdn_url: toCdnUrl(selection, assetPath),
-          download_url: toRawGitHubUrl(selection, assetPath),
-        });
-      } catch (error: any) {
-        if (error?.status === 422) {
-          return res.status(409).json({ error: "A file already exists at the target path." });
-        }
+          : `${target.previous ? "Replace" : "Upload"} ${target.name} via GitCDN`;
+
+      const stored = await prepareStoredAssetContent(
+        session.github_token,
+        selection,
+        config,
+        target.relativePath,
+        committedContent,
+      );
 
-        console.error("API ingest upload error:", error);
-        return res.status(500).json({ error: "Programmatic upload failed." });
+      const unchanged = target.previous?.sha === computeGitBlobSha(stored.content);
+      const variants = unchanged
+        ? []
+        : await storeImageVariants(
+            session.github_token,
+            octokit,
+            selection,
+            config,
+            target.relativePath,
+            content,
+            plannedWidths,
+          );
+      const keptOriginal =
+        optimized && optimizationSettings.keep_original && !unchanged
+          ? await storeKeptOriginal(
+              session.github_token,
+              octokit,
+              selection,
+              config,
+              target.relativePath,
+              assetName,
+              content,
+            )
+          : null;
+      const extraChanges: AssetTreeChange[] = keptOriginal ? [...variants, keptOriginal] : [...variants];
+      const imageInfo = await describeImage(committedContent);
+      if (imageInfo && !unchanged) {
+        extraChanges.push(await imageInfoChange(octokit, selection, computeGitBlobSha(stored.content), imageInfo));
       }
-    });
-  });
-
-  app.get("/api/assets", async (req, res) => {
-    if (!ensureCryptoConfigured(res)) {
-      return;
-    }
-
-    const session = requireSession(req, res);
-    if (!session) {
-      return;
-    }
-
-    const selection = getRepoSelection(session);
-    if (!selection) {
-      return res.json({
-        current_folder: "",
-        folders: [],
-        files: [],
-        all_folders: [],
-      });
-    }
-
-    const requestedFolder = normalizeFolderPath(req.query.folder);
-    if (requestedFolder == null) {
-      return res.status(400).json({ error: "Invalid folder path." });
-    }
-
-    const octokit = new Octokit({ auth: session.github_token });
-
-    try {
-      const blobEntries = await getAssetBlobEntries(octokit, selection);
-      const inventory = buildAssetInventory(selection, blobEntries);
-
-      const childFolders = inventory.folders
-        .filter((folder) => (folder.parent ?? "") === requestedFolder)
-        .map((folder) => ({ name: folder.name, path: folder.path }));
 
-      const folderFiles = inventory.files
-        .filter((file) => file.folder === requestedFolder)
-        .map((file) => ({
-          ...file,
-          cdn_url: toCdnUrl(selection, joinAssetRepoPath(file.path)),
-        }));
+      let commitSha: string;
+      if (unchanged) {
+        commitSha = await getBranchHeadSha(octokit, selection);
+      } else if (extraChanges.length > 0) {
+        // The file and everything generated from it land in one commit.
+        commitSha = await commitAssetTreeChanges(
+          octokit,
+          selection,
+          [{ repoPath: target.repoPath, sha: await createAssetBlob(octokit, selection, stored.content) }, ...extraChanges],
+          commitMessage,
+          config,
+        );
+      } else {
+        commitSha = await commitAssetFile(
+          octokit,
+          selection,
+          config,
+          target.repoPath,
+          stored.content,
+          commitMessage,
+          target.previous?.sha,
+        );
+      }
 
       res.json({
-        current_folder: requestedFolder,
-        folders: childFolders,
-        files: folderFiles,
-        all_folders: inventory.folders.map((folder) => folder.path),
+        success: true,
+        duplicate: false,
+        name: target.name,
+        path: target.relativePath,
+        folder: folderPath,
+        size: committedContent.length,
+        bytes_saved: bytesSaved(optimized),
+        storage: stored.lfs ? "lfs" : "git",
+        replaced: Boolean(target.previous) && !unchanged,
+        unchanged,
+        previous_version: target.previous,
+        commit_sha: commitSha,
+        cdn_url: toStoredAssetCdnUrl(selection, config.cdn, target.repoPath, stored.lfs),
+        pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, commitSha, target.repoPath, stored.lfs),
+        integrity: await rememberUploadedBlob(selection, stored, committedContent),
+        variants: variants.map((variant) => toImageVariantFile(selection, config.cdn, commitSha, variant)),
+        optimization: optimized
+          ? toOptimizationReport(selection, config.cdn, commitSha, optimized, keptOriginal)
+          : null,
+        image: imageInfo,
       });
     } catch (error: any) {
-      if (error.status === 404) {
-        return res.json({
-          current_folder: requestedFolder,
-          folders: [],
-          files: [],
-          all_folders: [],
-        });
+      if (isBranchMovedError(error)) {
+        return res.status(409).json({ error: BRANCH_MOVED_ERROR });
       }
 
-      console.error("List assets error:", error);
-      res.status(500).json({ error: "Failed to fetch assets" });
+      if (error?.status === 409 || error?.status === 422) {
+        return res.status(409).json({ error: "The target file changed during upload. Please retry." });
+      }
+
+      console.error("Upload error:", error);
+      res.status(500).json({ error: "Upload failed" });
     }
   });
 
-  app.get("/api/folders", async (req, res) => {
+  app.post("/api/upload/batch", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1401,29 +6928,285 @@ export function createApiApp() {
 
     const selection = getRepoSelection(session);
     if (!selection) {
-      return res.json({ folders: [] });
+      return res.status(400).json({ error: "Select a repository before uploading." });
+    }
+
+    const folderPath = normalizeFolderPath(req.body?.folder);
+    if (folderPath == null) {
+      return res.status(400).json({ error: "Invalid folder path." });
+    }
+
+    const inputFiles = req.body?.files;
+    if (!Array.isArray(inputFiles) || inputFiles.length === 0) {
+      return res.status(400).json({ error: "files must be a non-empty array." });
+    }
+
+    if (inputFiles.length > BATCH_UPLOAD_MAX_FILES) {
+      return res
+        .status(400)
+        .json({ error: `A batch upload can contain at most ${BATCH_UPLOAD_MAX_FILES} files.` });
+    }
+
+    // Each file is either base64 `content` or the `upload_id` of a chunked upload whose
+    // parts are all staged, which keeps every request under the JSON body limit.
+    const preparedFiles: {
+      originalName: string | null;
+      encodedContent: unknown;
+      mimeType: string | null;
+      content: Buffer;
+    }[] = [];
+    const stagedUploads = new Map<string, ChunkedUploadState>();
+    let totalBytes = 0;
+    for (const [index, inputFile] of inputFiles.entries()) {
+      if (inputFile?.upload_id != null) {
+        const staging = requireUploadStaging(res);
+        if (!staging) {
+          return;
+        }
+
+        const uploadId = parseChunkedUploadId(inputFile.upload_id);
+        const state = uploadId ? await findChunkedUpload(staging, uploadId, session) : null;
+        if (!state) {
+          return res.status(404).json({ error: `Staged upload for file #${index + 1} not found or expired.` });
+        }
+
+        totalBytes += state.size;
+        if (totalBytes > BATCH_UPLOAD_MAX_BYTES) {
+          return res.status(413).json({ error: `A batch upload can contain at most ${BATCH_UPLOAD_MAX_BYTES} bytes.` });
+        }
+
+        const content = await assembleChunkedUpload(staging, state);
+        if (!content) {
+          return res.status(409).json({ error: `Staged upload for file #${index + 1} is missing parts.` });
+        }
+
+        stagedUploads.set(state.upload_id, state);
+        preparedFiles.push({
+          originalName: state.original_name,
+          encodedContent: null,
+          mimeType: state.mime_type,
+          content,
+        });
+        continue;
+      }
+
+      const base64Content = extractBase64Payload(inputFile?.content);
+      if (!base64Content) {
+        return res.status(400).json({ error: `Invalid upload payload for file #${index + 1}.` });
+      }
+
+      const content = Buffer.from(base64Content, "base64");
+      if (!content.length) {
+        return res.status(400).json({ error: `File #${index + 1} is empty.` });
+      }
+
+      totalBytes += content.length;
+      if (totalBytes > BATCH_UPLOAD_MAX_BYTES) {
+        return res.status(413).json({ error: `A batch upload can contain at most ${BATCH_UPLOAD_MAX_BYTES} bytes.` });
+      }
+
+      preparedFiles.push({
+        originalName: sanitizeAssetName(inputFile?.name),
+        encodedContent: inputFile?.content,
+        mimeType: null,
+        content,
+      });
+    }
+
+    const variantWidths = parseImageVariantWidths(req.body?.widths);
+    if (!variantWidths) {
+      return res.status(400).json({ error: IMAGE_VARIANT_WIDTHS_ERROR });
     }
 
+    const commitMessage =
+      typeof req.body?.message === "string" && req.body.message.trim()
+        ? req.body.message.trim()
+        : `Upload ${preparedFiles.length} files via GitCDN`;
+
+    const force = parseBooleanFlag(req.body?.force);
     const octokit = new Octokit({ auth: session.github_token });
 
     try {
-      const blobEntries = await getAssetBlobEntries(octokit, selection);
-      const inventory = buildAssetInventory(selection, blobEntries);
+      const config = await readRepoConfig(octokit, selection);
+      const strategy = config.naming.strategy;
+      const optimizationSettings = resolveImageOptimization(config, folderPath);
+      const snapshot = await getAssetSnapshot(octokit, selection);
+      const blobEntries = snapshot.entries;
+      const takenPaths = collectTakenAssetPaths(blobEntries);
+      const uploadedFiles: {
+        original_name: string | null;
+        name: string;
+        path: string;
+        folder: string;
+        size: number;
+        bytes_saved: number;
+        storage: "git" | "lfs";
+        duplicate: boolean;
+        unchanged: boolean;
+        cdn_url: string;
+        integrity: SriHashes;
+        variants: StoredImageVariant[];
+        optimized: OptimizedImage | null;
+        keptOriginal: StoredUploadFile | null;
+        image: AssetImageInfo | null;
+      }[] = [];
+      const changes: AssetTreeChange[] = [];
+
+      for (const file of preparedFiles) {
+        const optimized = await optimizeImage(file.content, optimizationSettings);
+        const committedContent = optimized?.content ?? file.content;
+
+        // Earlier files in this batch are added to blobEntries, so repeats within it are caught too.
+        const duplicate = force ? null : findDuplicateAsset(blobEntries, committedContent);
+        if (duplicate) {
+          uploadedFiles.push({
+            original_name: file.originalName,
+            ...toDuplicateAssetFile(selection, config.cdn, duplicate, snapshot.commitSha, committedContent),
+            size: committedContent.length,
+            bytes_saved: 0,
+            unchanged: true,
+            variants: [],
+            optimized: null,
+            keptOriginal: null,
+            image: null,
+          });
+          continue;
+        }
+
+        const uploadName = generateAssetName(
+          strategy,
+          file.originalName,
+          committedContent,
+          file.encodedContent,
+          file.mimeType,
+        );
+        let assetName = optimizedAssetName(uploadName, optimized);
+        const generatedPath = folderPath ? `${folderPath}/${assetName}` : assetName;
+        // A taken hash name already holds these exact bytes, so there is nothing to commit.
+        const unchanged = strategy === "hash" && takenPaths.has(generatedPath);
+        const plannedWidths = unchanged ? [] : await planImageVariantWidths(file.content, variantWidths);
+        if (!unchanged) {
+          assetName = pickAvailableAssetName(
+            takenPaths,
+            folderPath,
+            assetName,
+            uploadCompanionNames(plannedWidths, optimized && optimizationSettings.keep_original ? uploadName : null),
+          );
+        }
+
+        const relativeAssetPath = folderPath ? `${folderPath}/${assetName}` : assetName;
+        const assetPath = joinAssetRepoPath(relativeAssetPath);
+        takenPaths.add(relativeAssetPath);
+
+        const stored = await prepareStoredAssetContent(
+          session.github_token,
+          selection,
+          config,
+          relativeAssetPath,
+          committedContent,
+        );
+
+        const variants: StoredImageVariant[] = [];
+        let keptOriginal: StoredUploadFile | null = null;
+        const imageInfo = await describeImage(committedContent);
+        if (!unchanged) {
+          const blobSha = await createAssetBlob(octokit, selection, stored.content);
+          changes.push({ repoPath: assetPath, sha: blobSha });
+          if (imageInfo) {
+            changes.push(await imageInfoChange(octokit, selection, blobSha, imageInfo));
+          }
+          blobEntries.push({
+            repoPath: assetPath,
+            relativePath: relativeAssetPath,
+            sha: blobSha,
+            size: stored.content.length,
+          });
+
+          variants.push(
+            ...(await storeImageVariants(
+              session.github_token,
+              octokit,
+              selection,
+              config,
+              relativeAssetPath,
+              file.content,
+              plannedWidths,
+            )),
+          );
+          if (optimized && optimizationSettings.keep_original) {
+            keptOriginal = await storeKeptOriginal(
+              session.github_token,
+              octokit,
+              selection,
+              config,
+              relativeAssetPath,
+              uploadName,
+              file.content,
+            );
+          }
+          for (const extraFile of keptOriginal ? [...variants, keptOriginal] : variants) {
+            changes.push(extraFile);
+            takenPaths.add(extraFile.relativePath);
+          }
+        }
+        uploadedFiles.push({
+          original_name: file.originalName,
+          name: assetName,
+          path: relativeAssetPath,
+          folder: folderPath,
+          size: committedContent.length,
+          bytes_saved: bytesSaved(optimized),
+          storage: stored.lfs ? "lfs" : "git",
+          duplicate: false,
+          unchanged,
+          cdn_url: toStoredAssetCdnUrl(selection, config.cdn, assetPath, stored.lfs),
+          integrity: await rememberUploadedBlob(selection, stored, committedContent),
+          variants,
+          optimized,
+          keptOriginal,
+          image: imageInfo,
+        });
+      }
+
+      const commitSha =
+        changes.length > 0 ? await commitAssetTreeChanges(octokit, selection, changes, commitMessage, config) : null;
+      const pinnedRef = commitSha ?? snapshot.commitSha;
+      const staging = uploadStaging;
+      if (staging) {
+        await Promise.all(Array.from(stagedUploads.values(), (state) => removeChunkedUpload(staging, state)));
+      }
 
       res.json({
-        folders: inventory.folders,
+        success: true,
+        commit_sha: commitSha,
+        folder: folderPath,
+        bytes_saved: uploadedFiles.reduce((total, file) => total + file.bytes_saved, 0),
+        files: uploadedFiles.map(({ variants, optimized, keptOriginal, ...file }) => ({
+          ...file,
+          pinned_cdn_url: toPinnedCdnUrl(
+            selection,
+            config.cdn,
+            pinnedRef,
+            joinAssetRepoPath(file.path),
+            file.storage === "lfs",
+          ),
+          variants: variants.map((variant) => toImageVariantFile(selection, config.cdn, pinnedRef, variant)),
+          optimization: optimized
+            ? toOptimizationReport(selection, config.cdn, pinnedRef, optimized, keptOriginal)
+            : null,
+        })),
       });
-    } catch (error: any) {
-      if (error.status === 404) {
-        return res.json({ folders: [] });
+    } catch (error) {
+      if (isBranchMovedError(error)) {
+        return res.status(409).json({ error: BRANCH_MOVED_ERROR });
       }
 
-      console.error("List folders error:", error);
-      res.status(500).json({ error: "Failed to fetch folders" });
+      console.error("Batch upload error:", error);
+      res.status(500).json({ error: "Batch upload failed" });
     }
   });
 
-  app.post("/api/folders", async (req, res) => {
+  app.post("/api/uploads", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1433,38 +7216,73 @@ export function createApiApp() {
       return;
     }
 
+    const staging = requireUploadStaging(res);
+    if (!staging) {
+      return;
+    }
+
     const selection = getRepoSelection(session);
     if (!selection) {
-      return res.status(400).json({ error: "Select a repository before creating folders." });
+      return res.status(400).json({ error: "Select a repository before uploading." });
     }
 
-    const folderPath = normalizeFolderPath(req.body?.path);
-    if (folderPath == null || !folderPath) {
-      return res.status(400).json({ error: "Folder path is required." });
+    const folderPath = normalizeFolderPath(req.body?.folder);
+    if (folderPath == null) {
+      return res.status(400).json({ error: "Invalid folder path." });
     }
 
-    const octokit = new Octokit({ auth: session.github_token });
-    const folderRepoPath = joinAssetRepoPath(folderPath);
-    const gitkeepPath = `${folderRepoPath}/.gitkeep`;
+    const size = parsePositiveInteger(req.body?.size);
+    if (!size || size > CHUNKED_UPLOAD_MAX_BYTES) {
+      return res
+        .status(400)
+        .json({ error: `size must be a positive integer up to ${CHUNKED_UPLOAD_MAX_BYTES}.` });
+    }
+
+    const originalName = sanitizeAssetName(req.body?.name);
+    const mimeType = typeof req.body?.mime_type === "string" ? req.body.mime_type.toLowerCase() : null;
+
+    const variantWidths = parseImageVariantWidths(req.body?.widths);
+    if (!variantWidths) {
+      return res.status(400).json({ error: IMAGE_VARIANT_WIDTHS_ERROR });
+    }
 
     try {
-      await octokit.repos.createOrUpdateFileContents({
+      const now = Date.now();
+      const state: ChunkedUploadState = {
+        upload_id: `upl_${crypto.randomBytes(12).toString("hex")}`,
+        username: session.username,
         owner: selection.owner,
         repo: selection.repo,
-        path: gitkeepPath,
         branch: selection.branch,
-        message: `Create folder ${folderPath} via GitCDN`,
-        content: Buffer.from("gitcdn-folder\n").toString("base64"),
+        folder: folderPath,
+        original_name: originalName,
+        mime_type: mimeType,
+        size,
+        part_size: CHUNKED_UPLOAD_PART_BYTES,
+        part_count: Math.ceil(size / CHUNKED_UPLOAD_PART_BYTES),
+        message:
+          typeof req.body?.message === "string" && req.body.message.trim() ? req.body.message.trim() : null,
+        widths: variantWidths,
+        created_at: now,
+        expires_at: now + CHUNKED_UPLOAD_TTL_MS,
+      };
+      await writeChunkedUploadState(staging, state);
+
+      res.status(201).json({
+        upload_id: state.upload_id,
+        size: state.size,
+        part_size: state.part_size,
+        part_count: state.part_count,
+        expires_at: state.expires_at,
+        warning: chunkedUploadWarning(size),
       });
-
-      res.json({ success: true, path: folderPath });
     } catch (error) {
-      console.error("Create folder error:", error);
-      res.status(500).json({ error: "Failed to create folder." });
+      console.error("Init chunked upload error:", error);
+      res.status(500).json({ error: "Failed to start upload." });
     }
   });
 
-  app.delete("/api/folders", async (req, res) => {
+  app.get("/api/uploads/:uploadId", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1474,46 +7292,78 @@ export function createApiApp() {
       return;
     }
 
-    const selection = getRepoSelection(session);
-    if (!selection) {
-      return res.status(400).json({ error: "Select a repository before deleting folders." });
+    const staging = requireUploadStaging(res);
+    if (!staging) {
+      return;
     }
 
-    const folderPath = normalizeFolderPath(req.query.path);
-    if (folderPath == null || !folderPath) {
-      return res.status(400).json({ error: "Folder path query param is required." });
+    const state = await requireChunkedUpload(req, res, session, staging);
+    if (!state) {
+      return;
     }
 
-    const octokit = new Octokit({ auth: session.github_token });
+    res.json({
+      upload_id: state.upload_id,
+      size: state.size,
+      part_size: state.part_size,
+      part_count: state.part_count,
+      received_parts: await listReceivedParts(staging, state),
+      expires_at: state.expires_at,
+    });
+  });
 
-    try {
-      const blobEntries = await getAssetBlobEntries(octokit, selection);
-      const prefix = `${folderPath}/`;
-      const entriesToDelete = blobEntries.filter((entry) => entry.relativePath.startsWith(prefix));
+  app.put(
+    "/api/uploads/:uploadId/parts/:partNumber",
+    express.raw({ type: () => true, limit: CHUNKED_UPLOAD_PART_BYTES }),
+    async (req, res) => {
+      if (!ensureCryptoConfigured(res)) {
+        return;
+      }
 
-      if (entriesToDelete.length === 0) {
-        return res.status(404).json({ error: "Folder not found or empty." });
+      const session = requireSession(req, res);
+      if (!session) {
+        return;
       }
 
-      for (const entry of entriesToDelete) {
-        await octokit.repos.deleteFile({
-          owner: selection.owner,
-          repo: selection.repo,
-          path: entry.repoPath,
-          branch: selection.branch,
-          message: `Delete ${folderPath} via GitCDN`,
-          sha: entry.sha,
-        });
+      const staging = requireUploadStaging(res);
+      if (!staging) {
+        return;
       }
 
-      res.json({ success: true, deleted: entriesToDelete.length });
-    } catch (error) {
-      console.error("Delete folder error:", error);
-      res.status(500).json({ error: "Failed to delete folder." });
-    }
-  });
+      const state = await requireChunkedUpload(req, res, session, staging);
+      if (!state) {
+        return;
+      }
 
-  app.post("/api/upload", async (req, res) => {
+      const partNumber = parsePositiveInteger(req.params.partNumber);
+      if (!partNumber || partNumber > state.part_count) {
+        return res.status(400).json({ error: `partNumber must be between 1 and ${state.part_count}.` });
+      }
+
+      const body: unknown = req.body;
+      if (!Buffer.isBuffer(body) || !body.length) {
+        return res.status(400).json({ error: "Part body must be non-empty binary data." });
+      }
+
+      const expectedSize =
+        partNumber === state.part_count ? state.size - state.part_size * (state.part_count - 1) : state.part_size;
+      if (body.length !== expectedSize) {
+        return res
+          .status(400)
+          .json({ error: `Part ${partNumber} must be exactly ${expectedSize} bytes.` });
+      }
+
+      try {
+        await writeChunkedUploadPart(staging, state, partNumber, body);
+        res.json({ success: true, part_number: partNumber, size: body.length });
+      } catch (error) {
+        console.error("Chunked upload part error:", error);
+        res.status(500).json({ error: "Failed to store upload part." });
+      }
+    },
+  );
+
+  app.post("/api/uploads/:uploadId/complete", async (req, res) => {
     if (!ensureCryptoConfigured(res)) {
       return;
     }
@@ -1523,54 +7373,187 @@ export function createApiApp() {
       return;
     }
 
-    const selection = getRepoSelection(session);
-    if (!selection) {
-      return res.status(400).json({ error: "Select a repository before uploading." });
+    const staging = requireUploadStaging(res);
+    if (!staging) {
+      return;
     }
 
-    const folderPath = normalizeFolderPath(req.body?.folder);
-    if (folderPath == null) {
-      return res.status(400).json({ error: "Invalid folder path." });
+    const state = await requireChunkedUpload(req, res, session, staging);
+    if (!state) {
+      return;
     }
 
-    const originalName = sanitizeAssetName(req.body?.name);
+    const receivedParts = await listReceivedParts(staging, state);
+    if (receivedParts.length !== state.part_count) {
+      const receivedSet = new Set(receivedParts);
+      const missingParts: number[] = [];
+      for (let partNumber = 1; partNumber <= state.part_count; partNumber += 1) {
+        if (!receivedSet.has(partNumber)) {
+          missingParts.push(partNumber);
+        }
+      }
 
-    const base64Content = extractBase64Payload(req.body?.content);
-    if (!base64Content) {
-      return res.status(400).json({ error: "Invalid upload payload." });
+      return res.status(409).json({ error: "Upload is missing parts.", missing_parts: missingParts });
     }
 
-    const assetName = generateAnonymousAssetName(originalName, req.body?.content);
-
-    const commitMessage =
-      typeof req.body?.message === "string" && req.body.message.trim()
-        ? req.body.message.trim()
-        : `Upload ${assetName} via GitCDN`;
-
+    const selection: RepoSelection = { owner: state.owner, repo: state.repo, branch: state.branch };
     const octokit = new Octokit({ auth: session.github_token });
-    const relativeAssetPath = folderPath ? `${folderPath}/${assetName}` : assetName;
-    const assetPath = joinAssetRepoPath(relativeAssetPath);
 
     try {
-      await octokit.repos.createOrUpdateFileContents({
-        owner: selection.owner,
-        repo: selection.repo,
-        path: assetPath,
-        branch: selection.branch,
-        message: commitMessage,
-        content: base64Content,
-      });
+      const content = await assembleChunkedUpload(staging, state);
+      if (!content) {
+        return res.status(409).json({ error: "Assembled upload does not match the declared size." });
+      }
+
+      const config = await readRepoConfig(octokit, selection);
+      const optimizationSettings = resolveImageOptimization(config, state.folder);
+      const optimized = await optimizeImage(content, optimizationSettings);
+      const committedContent = optimized?.content ?? content;
+
+      if (!parseBooleanFlag(req.body?.force)) {
+        const snapshot = await getAssetSnapshot(octokit, selection);
+        const duplicate = findDuplicateAsset(snapshot.entries, committedContent);
+        if (duplicate) {
+          await removeChunkedUpload(staging, state);
+          return res.json({
+            success: true,
+            ...toDuplicateAssetFile(selection, config.cdn, duplicate, snapshot.commitSha, committedContent),
+            size: committedContent.length,
+            unchanged: true,
+            commit_sha: null,
+            warning: null,
+          });
+        }
+      }
+      const uploadName = generateAssetName(
+        config.naming.strategy,
+        state.original_name,
+        committedContent,
+        null,
+        state.mime_type,
+      );
+      const plannedWidths = await planImageVariantWidths(content, state.widths);
+      const target = await resolveUploadTarget(
+        octokit,
+        selection,
+        state.folder,
+        optimizedAssetName(uploadName, optimized),
+        namingCollisionPolicy(config.naming.strategy),
+        {
+          companions: uploadCompanionNames(
+            plannedWidths,
+            optimized && optimizationSettings.keep_original ? uploadName : null,
+          ),
+        },
+      );
+      if (!target) {
+        return res.status(409).json({ error: "A file already exists at the target path." });
+      }
+
+      const stored = await prepareStoredAssetContent(
+        session.github_token,
+        selection,
+        config,
+        target.relativePath,
+        committedContent,
+      );
+      const blobSha = await createAssetBlob(octokit, selection, stored.content);
+      const unchanged = target.previous?.sha === blobSha;
+      const variants = unchanged
+        ? []
+        : await storeImageVariants(
+            session.github_token,
+            octokit,
+            selection,
+            config,
+            target.relativePath,
+            content,
+            plannedWidths,
+          );
+      const keptOriginal =
+        optimized && optimizationSettings.keep_original && !unchanged
+          ? await storeKeptOriginal(
+              session.github_token,
+              octokit,
+              selection,
+              config,
+              target.relativePath,
+              uploadName,
+              content,
+            )
+          : null;
+      const extraChanges: AssetTreeChange[] = keptOriginal ? [...variants, keptOriginal] : [...variants];
+      const imageInfo = await describeImage(committedContent);
+      if (imageInfo && !unchanged) {
+        extraChanges.push(await imageInfoChange(octokit, selection, blobSha, imageInfo));
+      }
+      const commitSha = unchanged
+        ? null
+        : await commitAssetTreeChanges(
+            octokit,
+            selection,
+            [{ repoPath: target.repoPath, sha: blobSha }, ...extraChanges],
+            state.message ?? `Upload ${target.name} via GitCDN`,
+            config,
+          );
+      await removeChunkedUpload(staging, state);
+      const pinnedRef = commitSha ?? (await getBranchHeadSha(octokit, selection));
 
       res.json({
         success: true,
-        name: assetName,
-        path: relativeAssetPath,
-        folder: folderPath,
-        cdn_url: toCdnUrl(selection, assetPath),
+        duplicate: false,
+        name: target.name,
+        path: target.relativePath,
+        folder: state.folder,
+        size: committedContent.length,
+        bytes_saved: bytesSaved(optimized),
+        storage: stored.lfs ? "lfs" : "git",
+        unchanged: commitSha == null,
+        commit_sha: commitSha,
+        cdn_url: toStoredAssetCdnUrl(selection, config.cdn, target.repoPath, stored.lfs),
+        pinned_cdn_url: toPinnedCdnUrl(selection, config.cdn, pinnedRef, target.repoPath, stored.lfs),
+        integrity: await rememberUploadedBlob(selection, stored, committedContent),
+        variants: variants.map((variant) => toImageVariantFile(selection, config.cdn, pinnedRef, variant)),
+        optimization: optimized ? toOptimizationReport(selection, config.cdn, pinnedRef, optimized, keptOriginal) : null,
+        image: imageInfo,
+        warning: chunkedUploadWarning(state.size),
       });
     } catch (error) {
-      console.error("Upload error:", error);
-      res.status(500).json({ error: "Upload failed" });
+      if (isBranchMovedError(error)) {
+        return res.status(409).json({ error: BRANCH_MOVED_ERROR });
+      }
+
+      console.error("Complete chunked upload error:", error);
+      res.status(500).json({ error: "Failed to complete upload." });
+    }
+  });
+
+  app.delete("/api/uploads/:uploadId", async (req, res) => {
+    if (!ensureCryptoConfigured(res)) {
+      return;
+    }
+
+    const session = requireSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    const staging = requireUploadStaging(res);
+    if (!staging) {
+      return;
+    }
+
+    const state = await requireChunkedUpload(req, res, session, staging);
+    if (!state) {
+      return;
+    }
+
+    try {
+      await removeChunkedUpload(staging, state);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Abort chunked upload error:", error);
+      res.status(500).json({ error: "Failed to abort upload." });
     }
   });
 
@@ -1589,82 +7572,108 @@ export function createApiApp() {
       return res.status(400).json({ error: "Select a repository before moving assets." });
     }
 
-    const sourcePath = normalizeAssetRelativePath(req.body?.path);
+    const isFolderMove = req.body?.folder != null;
+    const sourcePath = isFolderMove
+      ? normalizeFolderPath(req.body?.folder)
+      : normalizeAssetRelativePath(req.body?.path);
     if (!sourcePath) {
-      return res.status(400).json({ error: "Invalid source asset path." });
+      return res
+        .status(400)
+        .json({ error: isFolderMove ? "Invalid source folder path." : "Invalid source asset path." });
     }
 
-    const destinationFolder = normalizeFolderPath(req.body?.destination_folder);
+    // Omitting destination_folder renames in place.
+    const destinationFolder =
+      req.body?.destination_folder === undefined
+        ? parentFolderPath(sourcePath)
+        : normalizeFolderPath(req.body?.destination_folder);
     if (destinationFolder == null) {
       return res.status(400).json({ error: "Invalid destination folder path." });
     }
 
-    const fileName = fileNameFromPath(sourcePath);
-    const targetPath = destinationFolder ? `${destinationFolder}/${fileName}` : fileName;
+    const newNameInput = req.body?.new_name;
+    const newName =
+      newNameInput == null ? fileNameFromPath(sourcePath) : sanitizeMoveTargetName(newNameInput);
+    if (!newName) {
+      return res.status(400).json({ error: "Invalid new name." });
+    }
+
+    const targetPath = destinationFolder ? `${destinationFolder}/${newName}` : newName;
     if (targetPath === sourcePath) {
       return res.status(400).json({ error: "Source and destination are the same." });
     }
 
+    if (isFolderMove && targetPath.startsWith(`${sourcePath}/`)) {
+      return res.status(400).json({ error: "A folder cannot be moved into itself." });
+    }
+
     const octokit = new Octokit({ auth: session.github_token });
-    const sourceRepoPath = joinAssetRepoPath(sourcePath);
-    const targetRepoPath = joinAssetRepoPath(targetPath);
 
     try {
-      try {
-        await octokit.repos.getContent({
-          owner: selection.owner,
-          repo: selection.repo,
-          path: targetRepoPath,
-          ref: selection.branch,
-        });
-
-        return res.status(409).json({ error: "A file already exists in the destination folder." });
-      } catch (error: any) {
-        if (error.status !== 404) {
-          throw error;
-        }
+      // A partial listing could leave files behind or miss a conflict at the destination.
+      const { complete, entries: blobEntries } = await getAssetSnapshot(octokit, selection);
+      if (!complete) {
+        return res.status(422).json({ error: "The repository is too large to move assets safely." });
       }
 
-      const sourceResponse = await octokit.repos.getContent({
-        owner: selection.owner,
-        repo: selection.repo,
-        path: sourceRepoPath,
-        ref: selection.branch,
-      });
+      const moves = planAssetMoves(blobEntries, sourcePath, isFolderMove, destinationFolder, newName);
+      if (moves.length === 0) {
+        return res
+          .status(404)
+          .json({ error: isFolderMove ? "Folder not found or empty." : "Source asset not found." });
+      }
 
-      if (Array.isArray(sourceResponse.data) || sourceResponse.data.type !== "file") {
-        return res.status(400).json({ error: "Source path must be a file." });
+      const conflicts = collectMoveConflicts(
+        blobEntries,
+        new Set(moves.map((move) => move.entry.relativePath)),
+        moves.map((move) => move.targetRelativePath),
+      );
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          error: "The destination already contains files at the target paths.",
+          conflicts,
+        });
       }
 
-      const sourceFile = sourceResponse.data;
-      const content = sourceFile.content?.replace(/\n/g, "");
-      if (!content || sourceFile.encoding !== "base64") {
-        return res.status(500).json({ error: "Could not read source file content." });
+      const changes: AssetTreeChange[] = [];
+      for (const move of moves) {
+        changes.push({ repoPath: joinAssetRepoPath(move.targetRelativePath), sha: move.entry.sha });
+        changes.push({ repoPath: move.entry.repoPath, sha: null });
       }
 
-      await octokit.repos.createOrUpdateFileContents({
-        owner: selection.owner,
-        repo: selection.repo,
-        path: targetRepoPath,
-        branch: selection.branch,
-        message: `Move ${sourcePath} to ${targetPath} via GitCDN`,
-        content,
-      });
+      const commitSha = await commitAssetTreeChanges(
+        octokit,
+        selection,
+        changes,
+        `Move ${sourcePath} to ${targetPath} via GitCDN`,
+        undefined,
+        metadataMovesEdit(
+          moves.map((move): [string, string | null] => [
+            move.entry.repoPath,
+            joinAssetRepoPath(move.targetRelativePath),
+          ]),
+        ),
+      );
 
-      await octokit.repos.deleteFile({
-        owner: selection.owner,
-        repo: selection.repo,
-        path: sourceRepoPath,
-        branch: selection.branch,
-        message: `Delete ${sourcePath} after move via GitCDN`,
-        sha: sourceFile.sha,
-      });
+      if (isFolderMove) {
+        return res.json({
+          success: true,
+          folder: targetPath,
+          moved: moves.length,
+          commit_sha: commitSha,
+        });
+      }
 
+      const targetRepoPath = joinAssetRepoPath(targetPath);
+      const config = await readRepoConfig(octokit, selection);
+      const [movedEntry] = await resolveLfsPointerEntries(octokit, selection, [moves[0].entry]);
       res.json({
         success: true,
+        name: newName,
         path: targetPath,
         folder: destinationFolder,
-        cdn_url: toCdnUrl(selection, targetRepoPath),
+        commit_sha: commitSha,
+        cdn_url: toStoredAssetCdnUrl(selection, config.cdn, targetRepoPath, Boolean(movedEntry.lfs)),
       });
     } catch (error) {
       console.error("Move asset error:", error);
@@ -1697,23 +7706,7 @@ export function createApiApp() {
       return res.status(400).json({ error: "sha query param is required." });
     }
 
-    const octokit = new Octokit({ auth: session.github_token });
-
-    try {
-      await octokit.repos.deleteFile({
-        owner: selection.owner,
-        repo: selection.repo,
-        path: joinAssetRepoPath(assetPath),
-        branch: selection.branch,
-        message: `Delete ${assetPath} via GitCDN`,
-        sha,
-      });
-
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Delete asset error:", error);
-      res.status(500).json({ error: "Delete failed" });
-    }
+    await deleteAssetAndRespond(req, res, session, selection, assetPath, sha);
   });
 
   app.delete("/api/assets/:name", async (req, res) => {
@@ -1741,24 +7734,22 @@ export function createApiApp() {
       return res.status(400).json({ error: "sha query param is required." });
     }
 
-    const octokit = new Octokit({ auth: session.github_token });
-
-    try {
-      await octokit.repos.deleteFile({
-        owner: selection.owner,
-        repo: selection.repo,
-        path: joinAssetRepoPath(assetName),
-        branch: selection.branch,
-        message: `Delete ${assetName} via GitCDN`,
-        sha,
-      });
-
-      res.json({ success: true });
-    } catch (error) {
-      console.error("Delete asset error:", error);
-      res.status(500).json({ error: "Delete failed" });
-    }
+    await deleteAssetAndRespond(req, res, session, selection, assetName, sha);
   });
 
   return app;
 }
+
+// Internals covered by api-app.test.ts. They are not part of the app's API.
+export const apiAppInternals = {
+  commitRebasedTreeChanges,
+  isBranchMovedError,
+  defaultRepoConfig,
+  parseTrashEntry,
+  expiredTrashChanges,
+  purgeExpiredTrash,
+  selectTrashEntries,
+  deleteAssetEntries,
+  findImageVariantEntries,
+  planAssetMoves,
+};